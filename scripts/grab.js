@@ -8,12 +8,13 @@
  *  2. 抓取 .animated-banner 下所有图层的变换数据
  *  3. 模拟鼠标偏移，计算各图层加速度参数 a
  *  4. 下载所有图层资源到 public/assets/<date>/
- *  5. 生成 data.json 并更新 BannerDataLoader.js 的 MANIFEST
+ *  5. 生成 data.json 并更新 public/assets/manifest.json
  */
 
 const puppeteer = require("puppeteer");
 const fs = require("node:fs");
 const path = require("node:path");
+const { updateManifest } = require("./manifest");
 
 // ─────────────────────── 工具函数 ───────────────────────
 
@@ -33,7 +34,7 @@ function sleep(ms) {
  */
 class BannerGrabber {
   /**
-   * @param {string} bannerName - Banner 展示名称（写入 MANIFEST 的 name 字段）
+   * @param {string} bannerName - Banner 展示名称（写入 manifest.json 的 name 字段）
    */
   constructor(bannerName) {
     this.bannerName = bannerName;
@@ -47,10 +48,6 @@ class BannerGrabber {
     this.date = `${y}-${m}-${d}`;
 
     this.saveFolder = path.resolve(__dirname, `../public/assets/${this.date}`);
-    this.dataLoaderPath = path.resolve(
-      __dirname,
-      "../src/core/BannerDataLoader.ts",
-    );
   }
 
   /**
@@ -317,15 +314,8 @@ class BannerGrabber {
   }
 
   _updateManifest() {
-    let code = fs.readFileSync(this.dataLoaderPath, "utf8");
-
-    const newEntry = `    { date: "${this.date}", variants: [{ name: "${this.bannerName}" }] },`;
-
-    // 在 ADD_NEW_DATA 注释前插入新条目
-    code = code.replace(/(\s*\/\/\s*ADD_NEW_DATA)/, `\n${newEntry}$1`);
-
-    fs.writeFileSync(this.dataLoaderPath, code);
-    console.log(`📝 已更新 BannerDataLoader.ts MANIFEST`);
+    updateManifest({ [this.date]: this.bannerName });
+    console.log(`📝 已更新 manifest.json`);
   }
 }
 
@@ -0,0 +1,138 @@
+/*
+ * Banner 清单生成工具
+ * 用法: node scripts/manifest.js
+ *
+ * 功能：
+ *  1. 扫描 public/assets/<目录>/data.json
+ *  2. 与现有 manifest.json 合并，保留已填写的 name / tags / credits
+ *  3. 新目录以目录名作为占位名称，按目录名前缀（YYYY-MM-DD）归入对应日期
+ *  4. 数据目录已不存在的变体会被移除
+ *  5. 按日期升序写回 public/assets/manifest.json，并用 Biome 格式化，
+ *     与提交的文件保持一致，数据未变时重新生成不会产生 diff
+ */
+
+const { execFileSync } = require("node:child_process");
+const fs = require("node:fs");
+const path = require("node:path");
+
+const ASSETS_DIR = path.resolve(__dirname, "../public/assets");
+const MANIFEST_PATH = path.join(ASSETS_DIR, "manifest.json");
+const MANIFEST_VERSION = 1;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+// ─────────────────────── 工具函数 ───────────────────────
+
+/**
+ * 读取现有清单，不存在时返回空清单
+ * @returns {{ version: number, entries: Array<{ date: string, variants: object[] }> }}
+ */
+function readManifest() {
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    return { version: MANIFEST_VERSION, entries: [] };
+  }
+  return JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"));
+}
+
+/**
+ * 列出所有包含 data.json 且以日期开头的数据目录
+ * @returns {string[]}
+ */
+function scanDataFolders() {
+  return fs
+    .readdirSync(ASSETS_DIR, { withFileTypes: true })
+    .filter((dirent) => dirent.isDirectory() && DATE_PATTERN.test(dirent.name))
+    .filter((dirent) =>
+      fs.existsSync(path.join(ASSETS_DIR, dirent.name, "data.json")),
+    )
+    .map((dirent) => dirent.name)
+    .sort();
+}
+
+/**
+ * 按仓库的 Biome 配置格式化写出的清单（例如短数组保持单行）
+ */
+function formatManifest() {
+  try {
+    execFileSync(
+      process.execPath,
+      [
+        require.resolve("@biomejs/biome/bin/biome"),
+        "format",
+        "--write",
+        MANIFEST_PATH,
+      ],
+      { stdio: "ignore" },
+    );
+  } catch (e) {
+    console.warn(
+      `⚠️ 未能格式化 ${MANIFEST_PATH}，请手动运行 pnpm check`,
+      e.message,
+    );
+  }
+}
+
+// ─────────────────────── 主流程 ───────────────────────
+
+/**
+ * 扫描数据目录并重新生成 manifest.json
+ * @param {Object<string, string>} [names] - 数据目录名 → 变体名称，用于为新目录指定名称
+ * @returns {{ added: string[], removed: string[] }} 新增与移除的数据目录
+ */
+function updateManifest(names = {}) {
+  const manifest = readManifest();
+  const folders = new Set(scanDataFolders());
+  const known = new Set();
+  const removed = [];
+  const byDate = new Map();
+
+  // 保留仍存在数据目录的变体
+  for (const entry of manifest.entries) {
+    const variants = entry.variants.filter((variant) => {
+      const folder = variant.path || entry.date;
+      if (!folders.has(folder)) {
+        removed.push(folder);
+        return false;
+      }
+      known.add(folder);
+      if (names[folder]) variant.name = names[folder];
+      return true;
+    });
+    if (variants.length > 0) byDate.set(entry.date, variants);
+  }
+
+  // 追加新发现的目录
+  const added = [...folders].filter((folder) => !known.has(folder));
+  for (const folder of added) {
+    const date = folder.match(DATE_PATTERN)[0];
+    const variant = { name: names[folder] || folder };
+    if (folder !== date) variant.path = folder;
+    variant.tags = [];
+    if (!byDate.has(date)) byDate.set(date, []);
+    byDate.get(date).push(variant);
+  }
+
+  const output = {
+    $schema: "./manifest.schema.json",
+    version: MANIFEST_VERSION,
+    entries: [...byDate.keys()]
+      .sort()
+      .map((date) => ({ date, variants: byDate.get(date) })),
+  };
+  fs.writeFileSync(MANIFEST_PATH, `${JSON.stringify(output, null, 2)}\n`);
+  formatManifest();
+
+  return { added, removed };
+}
+
+module.exports = { updateManifest };
+
+// ─────────────────────── 入口 ───────────────────────
+
+if (require.main === module) {
+  const { added, removed } = updateManifest();
+  for (const folder of added)
+    console.log(`➕ 新增 ${folder}（请补充名称与标签）`);
+  for (const folder of removed)
+    console.log(`➖ 移除 ${folder}（数据目录不存在）`);
+  console.log(`📝 已更新 ${MANIFEST_PATH}`);
+}
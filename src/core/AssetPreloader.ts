@@ -0,0 +1,136 @@
+/**
+ * 场景资源预加载器
+ * 在切换变体前拉取并解码所有图片/视频/粒子素材，按数量汇报进度，
+ * 解码完成的元素交给引擎直接复用，避免图层逐个“蹦出”。
+ */
+
+import type { StandardBannerData } from "./BannerEngine";
+
+export type PreloadedAsset = HTMLImageElement | HTMLVideoElement;
+
+export interface AssetRequest {
+  src: string;
+  kind: "image" | "video";
+}
+
+export interface PreloadProgress {
+  loaded: number; // 已结束（含失败）的资源数
+  total: number;
+}
+
+export interface PreloadOptions {
+  timeout?: number; // 单个资源最长等待时间（ms），超时视为失败但不阻塞场景
+  onProgress?: (progress: PreloadProgress) => void;
+}
+
+/**
+ * 收集场景中所有需要加载的素材（按 src 去重，保持出现顺序）
+ */
+export function collectAssetSources(dto: StandardBannerData): AssetRequest[] {
+  const requests = new Map<string, AssetRequest>();
+  const add = (src: string, kind: AssetRequest["kind"]) => {
+    if (!requests.has(src)) requests.set(src, { src, kind });
+  };
+
+  if (Array.isArray(dto.payload)) {
+    for (const item of dto.payload) {
+      if (item.type === "particle") {
+        for (const src of item.srcs) add(src, "image");
+      } else {
+        add(item.src, item.type === "video" ? "video" : "image");
+      }
+    }
+  } else {
+    add(dto.payload.src, "video");
+  }
+  return [...requests.values()];
+}
+
+export default class AssetPreloader {
+  private timeout: number;
+
+  constructor(timeout: number = 15000) {
+    this.timeout = timeout;
+  }
+
+  /**
+   * 并行加载全部资源，单个失败不会中断整体
+   * @returns {Promise<Map<string, PreloadedAsset>>} 以原始 src 为键的已解码元素
+   */
+  public async load(
+    requests: AssetRequest[],
+    options: PreloadOptions = {},
+  ): Promise<Map<string, PreloadedAsset>> {
+    const total = requests.length;
+    const timeout = options.timeout ?? this.timeout;
+    const assets = new Map<string, PreloadedAsset>();
+    let loaded = 0;
+
+    options.onProgress?.({ loaded, total });
+
+    await Promise.all(
+      requests.map(async ({ src, kind }) => {
+        try {
+          const el = await this._withTimeout(
+            this._loadOne(src, kind),
+            timeout,
+            src,
+          );
+          assets.set(src, el);
+        } catch (e) {
+          console.warn(`[AssetPreloader] Failed to preload ${src}`, e);
+        }
+        loaded++;
+        options.onProgress?.({ loaded, total });
+      }),
+    );
+
+    return assets;
+  }
+
+  private _loadOne(
+    src: string,
+    kind: AssetRequest["kind"],
+  ): Promise<PreloadedAsset> {
+    const url = import.meta.env.BASE_URL + src.replace(/^\//, "");
+    if (kind === "video") {
+      return new Promise((resolve, reject) => {
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = "auto";
+        video.addEventListener("loadeddata", () => resolve(video), {
+          once: true,
+        });
+        video.addEventListener("error", reject, { once: true });
+        video.src = url;
+      });
+    }
+    const img = new Image();
+    img.src = url;
+    return img.decode().then(() => img);
+  }
+
+  private _withTimeout<T>(
+    task: Promise<T>,
+    timeout: number,
+    src: string,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(
+        () => reject(new Error(`Timed out after ${timeout}ms: ${src}`)),
+        timeout,
+      );
+      task.then(
+        (value) => {
+          window.clearTimeout(timer);
+          resolve(value);
+        },
+        (err) => {
+          window.clearTimeout(timer);
+          reject(err);
+        },
+      );
+    });
+  }
+}
@@ -1,35 +1,66 @@
 import type {
+  BannerFraming,
   ParallaxLayer,
   ParticleLayerConfig,
+  PhysicsConfig,
   StandardBannerData,
 } from "./BannerEngine";
+import {
+  formatIssues,
+  type ValidationIssue,
+  validateBannerData,
+  validateManifest,
+} from "./BannerSchema";
+import { renderThumbnail } from "./BannerThumbnail";
 
 /**
  * Banner 数据加载器
- * 通过静态清单（MANIFEST）统一管理所有 Banner 元数据，
- * 并提供 load() 方法并行拉取所有 JSON 数据。
+ * 所有 Banner 元数据记录在 public/assets/manifest.json（结构见 manifest.schema.json），
+ * 由 loadManifest() 拉取一次后即可同步获取（getEntries）；
+ * 单个变体的 data.json 由 loadVariant() 按需拉取并缓存，单个变体加载失败不会影响其他变体。
  *
- * 新增一期 Banner 时，只需在 MANIFEST 末尾追加一条记录即可。
+ * 新增一期 Banner 时无需修改源码：运行 `pnpm manifest` 扫描 public/assets 重新生成清单即可。
  */
 
-// 变体定义接口
+// 清单中的变体定义
 export interface VariantEntry {
-  name: string;
-  path?: string;
-  data?: unknown; // 解析后的原始JSON数据，将作为未知结构向下传递
+  name: string; // 变体名称，也是单变体时在时间轴上展示的默认名字
+  path?: string; // 数据目录名，若不填则默认使用外层 date
+  tags?: string[]; // 分类标签，例如季节
+  credits?: string; // 素材来源或作者署名
+  thumbnail?: string; // 预览图路径（相对 public），不填则按静止画面自动生成
 }
 
-// 原始清单数据结构
+// 清单条目，按时间升序排列
 export interface ManifestEntry {
-  date: string;
+  date: string; // 上线日期（YYYY-MM-DD），用于时间轴分组显示
   variants: VariantEntry[];
 }
 
-// 经过网络加载解析后带有 payload 的返回结构
-export interface LoadedVariant {
+// manifest.json 文件结构
+export interface ManifestFile {
+  version: number;
+  entries: ManifestEntry[];
+}
+
+// 已解析出数据目录的变体（尚未加载 data.json）
+export interface VariantInfo {
   name: string;
   path: string;
+  tags: string[];
+  credits?: string;
+  thumbnail?: string;
+}
+
+export interface BannerEntry {
+  date: string;
+  variants: VariantInfo[];
+}
+
+// 经过网络加载解析后带有 payload 的返回结构
+export interface LoadedVariant extends VariantInfo {
   data: StandardBannerData;
+  issues?: ValidationIssue[]; // 加载或校验失败时存在，此时 data 为空场景
 }
 
 export interface LoadedBannerData {
@@ -38,104 +69,190 @@ export interface LoadedBannerData {
 }
 
 export default class BannerDataLoader {
+  private _entries: BannerEntry[] = [];
+  private _manifestTask: Promise<BannerEntry[]> | null = null;
+  private _cache: Map<string, Promise<LoadedVariant>> = new Map();
+  private _thumbnails: Map<string, Promise<string>> = new Map();
+
   /**
-   * 所有 Banner 元数据清单，按时间升序排列。
-   * - date: 上线日期（YYYY-MM-DD），用于时间轴分组显示
-   * - variants: 包含该日期下所有变体的数组。
-   *     - name: 变体名称，也是单变体时在时间轴上展示的默认名字
-   *     - path: (可选) 数据目录名。若不填则默认使用外层 date
+   * 拉取并校验 manifest.json，结果缓存，重复调用共享同一请求。
+   * 清单结构不合法时 reject 并输出完整报告。
+   * @returns {Promise<BannerEntry[]>}
    */
-  public static readonly MANIFEST: ManifestEntry[] = [
-    {
-      date: "2020-10-01",
-      variants: [{ name: "仲秋流金 - 层林尽染", path: "2020-10-01-autumn" }],
-    },
-    {
-      date: "2021-01-01",
-      variants: [{ name: "冬日公园 - 雪仗酣战", path: "2021-01-01-winter" }],
-    },
-    {
-      date: "2021-04-12",
-      variants: [{ name: "十里桃花 - 河畔春游", path: "2021-04-12-spring" }],
-    },
-    {
-      date: "2021-08-01",
-      variants: [
-        { name: "雷雨楼间 - 不眠之夜", path: "2021-08-01-thunderstorm-night" },
-        { name: "凉风夏夜 - 花火照颜", path: "2021-08-01-sparkler-night" },
-        { name: "晴空流光 - 极目望远", path: "2021-08-01-starlit-night" },
-      ],
-    },
-    {
-      date: "2021-08-02",
-      variants: [
-        { name: "盛夏晴午 - 倚窗闲话", path: "2021-08-02-summer-noon-chat" },
-        { name: "阴晴之际 - 凭栏听风", path: "2021-08-02-balcony-windmill" },
-      ],
-    },
-    { date: "2021-08-09", variants: [{ name: "林间矮屋 - 秋日盛馔" }] },
-    {
-      date: "2021-12-03",
-      variants: [
-        {
-          name: "极地探险 - 企鹅之约",
-          path: "2021-12-03-antarctica-expedition",
-        },
-        {
-          name: "冰海寒夜 - 围炉取暖",
-          path: "2021-12-03-antarctica-fire-night",
+  public loadManifest(): Promise<BannerEntry[]> {
+    if (this._manifestTask) return this._manifestTask;
+
+    this._manifestTask = fetch(
+      `${import.meta.env.BASE_URL}assets/manifest.json`,
+    )
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((raw: unknown) => {
+        const issues = validateManifest(raw);
+        if (issues.length > 0) {
+          throw new Error(
+            `[BannerDataLoader] Invalid manifest.json:\n${formatIssues(issues)}`,
+          );
+        }
+        this._entries = this._resolveEntries((raw as ManifestFile).entries);
+        return this._entries;
+      })
+      .catch((e) => {
+        // 允许失败后重试
+        this._manifestTask = null;
+        throw e;
+      });
+    return this._manifestTask;
+  }
+
+  /**
+   * 同步获取清单（需先完成 loadManifest），变体 path 已按默认规则补全
+   * @returns {BannerEntry[]}
+   */
+  public getEntries(): BannerEntry[] {
+    return this._entries;
+  }
+
+  /**
+   * 按需加载单个变体的数据，结果按 path 缓存（并发请求共享同一 Promise）。
+   * 网络或解析失败时不会 reject，而是返回带 issues 的空场景。
+   * @param {string} path - 变体数据目录名
+   * @returns {Promise<LoadedVariant>}
+   */
+  public loadVariant(path: string): Promise<LoadedVariant> {
+    const cached = this._cache.get(path);
+    if (cached) return cached;
+
+    const info = this._findVariant(path);
+    const task = fetch(`${import.meta.env.BASE_URL}assets/${path}/data.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then(
+        (rawData) => this._toVariant(info, rawData),
+        (e: unknown) => {
+          // 失败结果不缓存，下次选中时重试
+          this._cache.delete(path);
+          const message = e instanceof Error ? e.message : String(e);
+          console.error(
+            `[BannerDataLoader] Failed to load data.json for "${info.name}": ${message}`,
+          );
+          return {
+            ...info,
+            data: { type: "parallax", payload: [] },
+            issues: [{ path, layer: null, field: "(fetch)", message }],
+          } as LoadedVariant;
         },
-      ],
-    },
-    { date: "2022-03-14", variants: [{ name: "百草惊春 - 苜蓿之眠" }] },
-    { date: "2023-08-13", variants: [{ name: "碧海潜游 - 珊瑚鱼影" }] },
-    { date: "2023-08-21", variants: [{ name: "沉船浮岛 - 垂钓问路" }] },
-    { date: "2023-10-01", variants: [{ name: "叶舟游江 - 萤火中秋" }] },
-    { date: "2023-10-26", variants: [{ name: "林间秋藏 - 猫头鹰监工" }] },
-    { date: "2023-11-17", variants: [{ name: "田野牧风 - 枫叶纸鸢" }] },
-    { date: "2023-12-12", variants: [{ name: "冬湖嬉冰 - 胡萝卜鼻雪人" }] },
-    { date: "2024-02-01", variants: [{ name: "雪夜围炉 - 共包新岁" }] },
-    { date: "2024-06-06", variants: [{ name: "春野骑行 - 橘猫电话亭" }] },
-    { date: "2024-06-26", variants: [{ name: "海洋机场 - 启程远洋" }] },
-    { date: "2024-09-26", variants: [{ name: "魔法少女 - 飞掠高架桥" }] },
-    { date: "2024-12-26", variants: [{ name: "龙吟雪岭 - 缆车飞驰" }] },
-    { date: "2025-04-05", variants: [{ name: "蒲英絮舞 - 掠影逐云" }] },
-    { date: "2025-06-15", variants: [{ name: "清凉一夏 - 水漫街头" }] },
-    { date: "2025-09-10", variants: [{ name: "弯月流星 - 手捧星光" }] },
-    { date: "2026-01-09", variants: [{ name: "雪林候车 - 学子归途" }] },
-    // ADD_NEW_DATA
-  ];
+      );
+
+    this._cache.set(path, task);
+    return task;
+  }
 
   /**
-   * 按新的结构统一并行加载所有变体的数据。
+   * 获取变体预览图地址，结果按 path 缓存。
+   * 优先使用清单声明的 thumbnail，否则加载 data.json 离屏合成静止画面。
+   * @param {VariantInfo} variant - 变体信息
+   * @returns {Promise<string>} 图片地址，无法生成时为空字符串
+   */
+  public loadThumbnail(variant: VariantInfo): Promise<string> {
+    const cached = this._thumbnails.get(variant.path);
+    if (cached) return cached;
+
+    const task = variant.thumbnail
+      ? Promise.resolve(
+          import.meta.env.BASE_URL + variant.thumbnail.replace(/^\//, ""),
+        )
+      : this.loadVariant(variant.path)
+          .then((loaded) => renderThumbnail(loaded.data))
+          .catch((e: unknown) => {
+            this._thumbnails.delete(variant.path);
+            console.warn(
+              `[BannerDataLoader] Failed to render thumbnail for "${variant.name}"`,
+              e,
+            );
+            return "";
+          });
+
+    this._thumbnails.set(variant.path, task);
+    return task;
+  }
+
+  /**
+   * 预取时间线上相邻的变体，便于切换时命中缓存
+   * @param {string} path - 当前变体
+   * @param {number} [radius=1] - 前后各预取的数量
+   */
+  public prefetchAround(path: string, radius: number = 1): void {
+    const paths = this.getEntries().flatMap((entry) =>
+      entry.variants.map((v) => v.path),
+    );
+    const index = paths.indexOf(path);
+    if (index === -1) return;
+    for (let offset = -radius; offset <= radius; offset++) {
+      const neighbour = paths[index + offset];
+      if (offset !== 0 && neighbour) this.loadVariant(neighbour);
+    }
+  }
+
+  /**
+   * 一次性加载所有变体的数据（单个失败不会导致整体失败）。
    * @returns {Promise<LoadedBannerData[]>}
    */
   public async load(): Promise<LoadedBannerData[]> {
-    const tasks = BannerDataLoader.MANIFEST.map(async (entry) => {
-      // 遍历加载该日期下的所有变体
-      const variantTasks = entry.variants.map((v) => {
-        const fetchPath = v.path || entry.date;
-        return fetch(`${import.meta.env.BASE_URL}assets/${fetchPath}/data.json`)
-          .then((res) => res.json())
-          .then(
-            (rawData) =>
-              ({
-                name: v.name,
-                path: fetchPath,
-                data: this._normalizeData(rawData),
-              }) as LoadedVariant,
-          );
-      });
-
-      const resolvedVariants: LoadedVariant[] = await Promise.all(variantTasks);
+    const entries = await this.loadManifest();
+    return Promise.all(
+      entries.map(async (entry) => ({
+        date: entry.date,
+        variants: await Promise.all(
+          entry.variants.map((v) => this.loadVariant(v.path)),
+        ),
+      })),
+    );
+  }
 
-      return {
+  private _resolveEntries(entries: ManifestEntry[]): BannerEntry[] {
+    return [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((entry) => ({
         date: entry.date,
-        variants: resolvedVariants,
-      } as LoadedBannerData;
-    });
+        variants: entry.variants.map((v) => ({
+          name: v.name,
+          path: v.path || entry.date,
+          tags: v.tags || [],
+          credits: v.credits,
+          thumbnail: v.thumbnail,
+        })),
+      }));
+  }
 
-    return Promise.all(tasks);
+  private _findVariant(path: string): VariantInfo {
+    for (const entry of this.getEntries()) {
+      const variant = entry.variants.find((v) => v.path === path);
+      if (variant) return variant;
+    }
+    return { name: path, path, tags: [] };
+  }
+
+  /**
+   * 校验原始数据并组装变体，校验失败时输出完整报告并返回空场景
+   */
+  private _toVariant(info: VariantInfo, rawData: unknown): LoadedVariant {
+    const issues = validateBannerData(rawData, info.path);
+    if (issues.length > 0) {
+      console.error(
+        `[BannerDataLoader] Invalid data.json for "${info.name}" (${issues.length} issue(s)):\n${formatIssues(issues)}`,
+      );
+      return {
+        ...info,
+        data: { type: "parallax", payload: [] },
+        issues,
+      };
+    }
+    return { ...info, data: this._normalizeData(rawData) };
   }
 
   // ─────────────────────── 防腐适配器 (Anti-Corruption) ───────────────────────
@@ -148,35 +265,63 @@ export default class BannerDataLoader {
       !Array.isArray(rawData) &&
       (rawData as { mode?: string }).mode === "simple-video"
     ) {
+      const { src, framing } = rawData as {
+        src: string;
+        framing?: BannerFraming;
+      };
       return {
         type: "simple-video",
-        payload: {
-          mode: "simple-video",
-          src: (rawData as { src: string }).src,
-        },
+        payload: { mode: "simple-video", src },
+        framing,
       };
     }
 
     // 处理传统数组格式
     if (Array.isArray(rawData)) {
-      const payload = rawData.map((item) => {
-        // 粒子层配置直接透传
-        if (item.type === "particle") {
-          return item as ParticleLayerConfig;
-        }
-        const isVideo = item.tagName === "video";
-        return {
-          ...item,
-          type: isVideo ? "video" : "image",
-        } as ParallaxLayer;
-      });
+      return { type: "parallax", payload: this._normalizeLayers(rawData) };
+    }
+
+    // 带 Banner 级参数的对象格式：{ "physics": {...}, "framing": {...}, "layers": [...] }
+    if (
+      rawData &&
+      typeof rawData === "object" &&
+      Array.isArray((rawData as { layers?: unknown }).layers)
+    ) {
+      const { layers, physics, framing } = rawData as {
+        layers: unknown[];
+        physics?: PhysicsConfig;
+        framing?: BannerFraming;
+      };
       return {
         type: "parallax",
-        payload,
+        payload: this._normalizeLayers(layers),
+        physics,
+        framing,
       };
     }
 
     // 回退安全默认值
     return { type: "parallax", payload: [] };
   }
+
+  private _normalizeLayers(
+    rawLayers: unknown[],
+  ): Array<ParallaxLayer | ParticleLayerConfig> {
+    return rawLayers.map((raw) => {
+      const item = raw as Record<string, unknown>;
+      // 粒子层配置直接透传
+      if (item.type === "particle") {
+        return item as unknown as ParticleLayerConfig;
+      }
+      // 序列帧图层已自带类型与 sprite 配置
+      if (item.type === "sprite") {
+        return item as unknown as ParallaxLayer;
+      }
+      const isVideo = item.tagName === "video";
+      return {
+        ...item,
+        type: isVideo ? "video" : "image",
+      } as ParallaxLayer;
+    });
+  }
 }
@@ -0,0 +1,72 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import BannerEngine from "./BannerEngine";
+import type { ParticleLayerConfig } from "./ParticleSystem";
+
+// 粒子系统依赖 canvas 绘制与图片加载，这里只关心引擎如何摆放粒子画布
+vi.mock("./ParticleSystem", () => ({
+  default: class {
+    start = () => Promise.resolve();
+    load = () => Promise.resolve();
+    dispose() {}
+    pause() {}
+    resume() {}
+    setWind() {}
+    setPointer() {}
+    resize() {}
+  },
+}));
+
+function particle(
+  overrides: Partial<ParticleLayerConfig> = {},
+): ParticleLayerConfig {
+  return {
+    type: "particle",
+    srcs: ["./assets/test/snow.png"],
+    count: 10,
+    speedRange: [0.5, 1],
+    angleRange: [-10, 10],
+    sizeRange: [4, 8],
+    opacityRange: [0.4, 1],
+    ...overrides,
+  };
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+describe("BannerEngine particle parallax", () => {
+  let engine: BannerEngine;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="app"></div>';
+    engine = new BannerEngine("#app", { motion: "full" });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it("moves particle layers configured with only vertical coefficients", async () => {
+    await engine.updateData({
+      type: "parallax",
+      payload: [
+        {
+          type: "image",
+          src: "./assets/test/layer.png",
+          width: 1650,
+          transform: [1, 0, 0, 1, 0, 0],
+          a: 0.1,
+        },
+        particle({ ay: 0.5 }),
+      ],
+    });
+    engine.setPointerOffset(100, 40);
+    await nextFrame();
+
+    const canvas =
+      document.querySelector<HTMLCanvasElement>(".particle-canvas");
+    expect(canvas?.style.transform).toBe("translate(0px, 20px)");
+  });
+});
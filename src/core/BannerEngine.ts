@@ -3,16 +3,57 @@
  * 负责渲染图层、响应鼠标交互，并驱动视差/回正动画。
  */
 
+import AssetPreloader, {
+  collectAssetSources,
+  type PreloadedAsset,
+  type PreloadProgress,
+} from "./AssetPreloader";
+import CanvasRenderer, {
+  type CanvasLayer,
+  type CanvasParticleLayer,
+} from "./CanvasRenderer";
+import EventEmitter, { type EventHandler } from "./EventEmitter";
+import type { LayerKeyframes } from "./Keyframes";
+import {
+  createSpringState,
+  isAtRest,
+  type PhysicsConfig,
+  type ResolvedPhysics,
+  resolvePhysics,
+  type SpringState,
+  stepSpring,
+  withInertia,
+} from "./MotionPhysics";
+import {
+  type BannerFraming,
+  computeFrame,
+  computeFraming,
+  computeLayerFrame,
+  computeParticleOffset,
+  DESIGN_HEIGHT,
+  type LayerFrame,
+  lerp,
+  type ParticleOffset,
+  prepareLayer,
+} from "./ParallaxMath";
 import ParticleSystem, { type ParticleLayerConfig } from "./ParticleSystem";
+import { playTransition, type TransitionOptions } from "./SceneTransition";
+import { type SpriteConfig, spriteFrameForOffset, spriteGrid } from "./Sprite";
 
-export type LayerType = "image" | "video";
+export type LayerType = "image" | "video" | "sprite";
 export type BannerMode = "simple-video" | "parallax";
-export type { ParticleLayerConfig };
+export type {
+  BannerFraming,
+  LayerKeyframes,
+  ParticleLayerConfig,
+  PhysicsConfig,
+  SpriteConfig,
+};
 
 export interface BaseLayer {
   src: string;
   width: number;
-  height: number;
+  height?: number;
   transform: number[]; // [a, b, c, d, tx, ty]
   opacity?: number[]; // [default, opLeft, opRight]
   blur?: number;
@@ -20,7 +61,14 @@ export interface BaseLayer {
   g?: number; // 视差系数
   f?: number; // 缩放系数
   deg?: number; // 旋转角度
+  ay?: number; // 垂直偏移驱动的纵向位移系数
+  gy?: number; // 垂直偏移驱动的横向位移系数
+  fy?: number; // 垂直偏移驱动的缩放系数
+  degy?: number; // 垂直偏移驱动的旋转角度
+  inertia?: number; // 惯性倍率，开启弹簧跟随时放大质量，默认 1
+  keyframes?: LayerKeyframes; // 不依赖指针、按时钟自行播放的动画
   // 内部辅助数据
+  _baseMatrix?: number[]; // 按补偿系数换算后的基础矩阵
   _baseTransform?: string; // 预处理后的基础矩阵字符串
   _aCompensated?: number;
   _gCompensated?: number;
@@ -34,7 +82,32 @@ export interface VideoLayer extends BaseLayer {
   type: "video";
 }
 
-export type ParallaxLayer = ImageLayer | VideoLayer;
+// 序列帧图层：src 为按网格排列的精灵图，width/height 指单帧的显示尺寸
+export interface SpriteLayer extends BaseLayer {
+  type: "sprite";
+  sprite: SpriteConfig;
+}
+
+export type ParallaxLayer = ImageLayer | VideoLayer | SpriteLayer;
+
+// 可在运行时调整的图层参数（参数编辑器使用）
+export type LayerPatch = Partial<
+  Pick<
+    BaseLayer,
+    | "a"
+    | "g"
+    | "f"
+    | "deg"
+    | "ay"
+    | "gy"
+    | "fy"
+    | "degy"
+    | "inertia"
+    | "blur"
+    | "opacity"
+    | "transform"
+  >
+>;
 
 export interface SimpleVideoData {
   mode: "simple-video";
@@ -44,63 +117,202 @@ export interface SimpleVideoData {
 export interface StandardBannerData {
   type: BannerMode;
   payload: Array<ParallaxLayer | ParticleLayerConfig> | SimpleVideoData;
+  physics?: PhysicsConfig; // Banner 级跟随/回正参数，覆盖引擎选项
+  framing?: BannerFraming; // 取景：容器比例与设计稿不同时围绕主体缩放裁切
+}
+
+/**
+ * 输入源
+ * - pointer: 鼠标悬停 + 触摸/手写笔拖拽
+ * - orientation: 设备陀螺仪倾斜
+ * - both: 两者同时生效，后到的输入覆盖先前的偏移
+ */
+export type InputSource = "pointer" | "orientation" | "both";
+
+/**
+ * 动效偏好
+ * - auto: 跟随系统 prefers-reduced-motion
+ * - full / reduced: 强制指定
+ */
+export type MotionPreference = "auto" | "full" | "reduced";
+
+/**
+ * 暂停原因，任一原因存在即视为暂停
+ * - user: 调用 pause()
+ * - hidden: 页面不可见（visibilitychange）
+ * - offscreen: Banner 滚出视口（IntersectionObserver）
+ */
+export type PauseReason = "user" | "hidden" | "offscreen";
+
+/**
+ * 渲染后端
+ * - dom: 每个图层一个 div.layer，通过 CSS transform 驱动（默认）
+ * - canvas: 所有图层与粒子在单个 canvas 上合成
+ */
+export type RenderBackend = "dom" | "canvas";
+
+export interface BannerEngineOptions {
+  input?: InputSource;
+  orientationRange?: number; // 左右倾斜多少度时达到最大偏移，默认 30
+  preload?: boolean; // 切换场景前是否预加载全部素材，默认 false
+  transition?: TransitionOptions; // 场景切换过渡，默认 0.6s 淡入
+  motion?: MotionPreference; // 默认 auto
+  reducedMotionParallax?: number; // 减弱动效时的视差比例，0 为关闭，默认 0.2
+  renderer?: RenderBackend; // 默认 dom
+  physics?: PhysicsConfig; // 指针跟随弹簧与回正缓动，默认直接跟随 + 300ms easeOutQuart
+}
+
+export interface UpdateDataOptions {
+  preload?: boolean; // 覆盖引擎级 preload 设置
+  transition?: TransitionOptions; // 覆盖引擎级过渡设置
+}
+
+/**
+ * 引擎对外事件及其载荷
+ */
+export interface BannerEngineEvents {
+  ready: { layerCount: number; failedCount: number }; // 当前场景所有图层加载结束（含失败）
+  layerError: { index: number; src: string };
+  loadProgress: PreloadProgress;
+  move: { moveX: number; moveY: number };
+  homingStart: { fromX: number; fromY: number };
+  homingEnd: undefined;
+  dataChange: { data: StandardBannerData };
+  pauseChange: { paused: boolean; reasons: PauseReason[] };
+  destroy: undefined;
 }
 
 interface EngineState {
   initX: number;
+  initY: number;
   moveX: number;
+  moveY: number; // 垂直偏移，只影响配置了 ay/gy/fy/degy 的图层
   startTime: number;
+  homingProgress: number | null; // 回正中最近一帧的缓动进度，未在回正时为 null
+  stepTime: number; // 上一次推进弹簧的帧时间戳，0 表示弹簧静止
   rafId: number;
+  activePointerId: number | null; // 正在拖拽的触摸/手写笔指针
+  orientationBase: number | null; // 首次读到的 gamma，作为水平基准
+  orientationBaseY: number | null; // 首次读到的 beta，作为垂直基准
 }
 
-interface EngineConfig {
-  duration: number;
-  baseWidth: number;
+// 粒子层及其在图层序列中的位置
+interface ParticleLayerState {
+  config: ParticleLayerConfig;
+  index: number; // 位于第 index 个视差图层之前，等于图层数时位于最上层
+  system: ParticleSystem;
+  canvas: HTMLCanvasElement | null; // 仅 DOM 后端，每个粒子层独立一张画布
+  offset: ParticleOffset; // 最近一帧的视差平移，用于换算指针在粒子画布中的位置
+  spring: SpringState; // 开启弹簧跟随时该层实际所处的偏移
 }
 
+const NO_OFFSET: ParticleOffset = { translateX: 0, translateY: 0 };
+
+// 单帧推进弹簧的最大时长（s），避免切回标签页后一步跳过头
+const MAX_SPRING_STEP = 1 / 30;
+
 export default class BannerEngine {
   private container: HTMLElement | null;
   private allLayersData: ParallaxLayer[] = [];
   private layers: NodeListOf<HTMLElement> | null = null;
   private compensate: number = 1;
+  private shiftX: number = 0; // 取景平移，使主体位于容器中央
+  private shiftY: number = 0;
+  private framing: BannerFraming = {};
   private simpleVideoMode: boolean = false;
-  private static readonly DEG2RAD: number = 180 / Math.PI;
 
-  private _particleSystem: ParticleSystem | null = null;
-  private _particleCanvas: HTMLCanvasElement | null = null;
+  private _particleLayers: ParticleLayerState[] = [];
+  private _sceneCanvas: HTMLCanvasElement | null = null; // 仅 canvas 后端，合成图层与粒子
+  private _canvasRenderer: CanvasRenderer | null = null; // 仅 canvas 后端
+
+  // 当前场景根节点；切换时新旧场景并存，直到过渡动画结束
+  private _scene: HTMLElement | null = null;
+  private _transitions: Animation[] = [];
 
   private state: EngineState = {
     initX: 0,
+    initY: 0,
     moveX: 0,
+    moveY: 0,
     startTime: 0,
+    homingProgress: null,
+    stepTime: 0,
     rafId: 0,
+    activePointerId: null,
+    orientationBase: null,
+    orientationBaseY: null,
   };
 
-  private config: EngineConfig = {
-    duration: 300,
-    baseWidth: 1650,
-  };
+  private _events = new EventEmitter<BannerEngineEvents>();
+  private _sceneToken: number = 0; // 每次切换场景自增，用于丢弃过期的加载回调
+
+  private input: InputSource;
+  private orientationRange: number;
+  private preload: boolean;
+  private transition: TransitionOptions;
+  private renderer: RenderBackend;
+  private physics: PhysicsConfig;
+  private _physics: ResolvedPhysics; // 合并当前 Banner 配置后的生效参数
+  private _springs: SpringState[] = []; // 与 allLayersData 一一对应
+
+  // 动画时钟（ms）：仅在场景含关键帧或按时钟播放的序列帧图层且未冻结时运行，暂停期间不前进
+  private _clockTime: number = 0;
+  private _clockStamp: number = 0;
+  private _clockId: number = 0;
+
+  private motion: MotionPreference;
+  private reducedMotionParallax: number;
+  private _reducedMotion: boolean = false;
+  private _motionQuery: MediaQueryList | null = null;
+  private _pauseReasons: Set<PauseReason> = new Set();
+  private _visibilityObserver: IntersectionObserver | null = null;
+  private _resizeObserver: ResizeObserver | null = null;
+
+  private _preloader = new AssetPreloader();
+  private _preloaded: Map<string, PreloadedAsset> = new Map();
 
   // 绑定后的事件处理函数保存引用以便注销
-  private _boundMouseEnter: (e: MouseEvent) => void;
-  private _boundMouseMove: (e: MouseEvent) => void;
-  private _boundMouseLeave: () => void;
+  private _boundPointerEnter: (e: PointerEvent) => void;
+  private _boundPointerDown: (e: PointerEvent) => void;
+  private _boundPointerMove: (e: PointerEvent) => void;
+  private _boundPointerUp: (e: PointerEvent) => void;
+  private _boundPointerLeave: (e: PointerEvent) => void;
+  private _boundOrientation: (e: DeviceOrientationEvent) => void;
   private _boundResize: () => void;
   private _boundBlur: () => void;
+  private _boundVisibilityChange: () => void;
+  private _boundMotionChange: () => void;
 
   /**
    * @param {string} containerSelector - Banner 容器的 CSS 选择器
+   * @param {BannerEngineOptions} [options] - 引擎选项
    */
-  constructor(containerSelector: string) {
+  constructor(containerSelector: string, options: BannerEngineOptions = {}) {
     this.container = document.querySelector(containerSelector);
+    this.input = options.input || "pointer";
+    this.orientationRange = options.orientationRange || 30;
+    this.preload = !!options.preload;
+    this.transition = options.transition || {};
+    this.motion = options.motion || "auto";
+    this.reducedMotionParallax = options.reducedMotionParallax ?? 0.2;
+    this.renderer = options.renderer || "dom";
+    this.physics = options.physics || {};
+    this._physics = resolvePhysics(this.physics);
 
     // 绑定事件到 this
-    this._boundMouseEnter = this._handleMouseEnter.bind(this);
-    this._boundMouseMove = this._handleMouseMove.bind(this);
-    this._boundMouseLeave = this._handleMouseLeave.bind(this);
+    this._boundPointerEnter = this._handlePointerEnter.bind(this);
+    this._boundPointerDown = this._handlePointerDown.bind(this);
+    this._boundPointerMove = this._handlePointerMove.bind(this);
+    this._boundPointerUp = this._handlePointerUp.bind(this);
+    this._boundPointerLeave = this._handlePointerLeave.bind(this);
+    this._boundOrientation = this._handleOrientation.bind(this);
     this._boundResize = this._handleResize.bind(this);
-    this._boundBlur = this._handleMouseLeave.bind(this);
+    this._boundBlur = this._homeBack.bind(this);
+    this._boundVisibilityChange = this._handleVisibilityChange.bind(this);
+    this._boundMotionChange = this._syncMotionPreference.bind(this);
     this._resetPosition = this._resetPosition.bind(this);
+    this._followPointer = this._followPointer.bind(this);
+    this._tickClock = this._tickClock.bind(this);
   }
 
   /**
@@ -108,30 +320,253 @@ export default class BannerEngine {
    */
   public start(): void {
     if (!this.container) return;
-    this.container.addEventListener("mouseenter", this._boundMouseEnter);
-    this.container.addEventListener("mousemove", this._boundMouseMove);
-    this.container.addEventListener("mouseleave", this._boundMouseLeave);
-    window.addEventListener("resize", this._boundResize);
+    if (this.input !== "orientation") {
+      this.container.addEventListener("pointerenter", this._boundPointerEnter);
+      this.container.addEventListener("pointerdown", this._boundPointerDown);
+      this.container.addEventListener("pointermove", this._boundPointerMove);
+      this.container.addEventListener("pointerup", this._boundPointerUp);
+      this.container.addEventListener("pointercancel", this._boundPointerUp);
+      this.container.addEventListener("pointerleave", this._boundPointerLeave);
+    }
+    if (this.input !== "pointer") {
+      window.addEventListener("deviceorientation", this._boundOrientation);
+    }
+    // 跟随容器自身尺寸，而不只是窗口尺寸（例如侧栏展开、嵌入窄容器）
+    if (typeof ResizeObserver === "function") {
+      this._resizeObserver = new ResizeObserver(this._boundResize);
+      this._resizeObserver.observe(this.container);
+    } else {
+      window.addEventListener("resize", this._boundResize);
+    }
     window.addEventListener("blur", this._boundBlur);
+    document.addEventListener("visibilitychange", this._boundVisibilityChange);
+
+    if (this.motion === "auto") {
+      this._motionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+      this._motionQuery.addEventListener("change", this._boundMotionChange);
+    }
+    this._syncMotionPreference();
+
+    if (typeof IntersectionObserver === "function") {
+      this._visibilityObserver = new IntersectionObserver((entries) => {
+        const entry = entries[entries.length - 1];
+        this._setPauseReason("offscreen", !entry.isIntersecting);
+      });
+      this._visibilityObserver.observe(this.container);
+    }
+    this._handleVisibilityChange();
+  }
+
+  /**
+   * 暂停所有动画：视差/回正 RAF、粒子系统与视频
+   */
+  public pause(): void {
+    this._setPauseReason("user", true);
+  }
+
+  /**
+   * 恢复由 pause() 引起的暂停；页面隐藏或滚出视口时仍保持暂停
+   */
+  public resume(): void {
+    this._setPauseReason("user", false);
+  }
+
+  public isPaused(): boolean {
+    return this._pauseReasons.size > 0;
+  }
+
+  public getPauseReasons(): PauseReason[] {
+    return [...this._pauseReasons];
+  }
+
+  /**
+   * 是否处于减弱动效模式（粒子冻结、视频暂停、视差减弱）
+   */
+  public isReducedMotion(): boolean {
+    return this._reducedMotion;
+  }
+
+  /**
+   * 订阅引擎事件
+   * @returns {() => void} 取消订阅函数
+   */
+  public on<K extends keyof BannerEngineEvents>(
+    type: K,
+    handler: EventHandler<BannerEngineEvents[K]>,
+  ): () => void {
+    return this._events.on(type, handler);
+  }
+
+  public once<K extends keyof BannerEngineEvents>(
+    type: K,
+    handler: EventHandler<BannerEngineEvents[K]>,
+  ): () => void {
+    return this._events.once(type, handler);
+  }
+
+  public off<K extends keyof BannerEngineEvents>(
+    type: K,
+    handler: EventHandler<BannerEngineEvents[K]>,
+  ): void {
+    this._events.off(type, handler);
+  }
+
+  /**
+   * 以编程方式设置指针偏移（例如展示模式的自动扫动），效果等同真实指针
+   * @param {number} moveX - 相对初始位置的水平偏移（px）
+   * @param {number} [moveY] - 相对初始位置的垂直偏移（px），默认 0
+   */
+  public setPointerOffset(moveX: number, moveY: number = 0): void {
+    if (this.simpleVideoMode) return;
+    this._moveTo(moveX, moveY);
+  }
+
+  /**
+   * 结束编程式偏移，缓动回正
+   */
+  public releasePointer(): void {
+    this._homeBack();
+  }
+
+  /**
+   * 获取当前场景视差图层参数的副本（不含内部辅助字段），纯视频模式下为空数组
+   */
+  public getLayers(): ParallaxLayer[] {
+    return this.allLayersData.map((item) => {
+      const {
+        _baseMatrix,
+        _baseTransform,
+        _aCompensated,
+        _gCompensated,
+        ...layer
+      } = item;
+      return {
+        ...layer,
+        transform: [...layer.transform],
+        opacity: layer.opacity && [...layer.opacity],
+      };
+    });
+  }
+
+  /**
+   * 修改单个图层参数并立即按当前偏移重绘，用于参数调试
+   * @param {number} index - 图层序号（不含粒子层）
+   * @param {LayerPatch} patch - 需要覆盖的参数，值为 undefined 表示移除该可选参数
+   */
+  public updateLayer(index: number, patch: LayerPatch): void {
+    const item = this.allLayersData[index];
+    if (!item) return;
+    const updated = prepareLayer(
+      { ...item, ...patch },
+      this.compensate,
+      this.shiftX,
+      this.shiftY,
+    );
+    this.allLayersData[index] = updated;
+
+    const layer = this.layers?.[index];
+    if (!layer) return;
+    const child = layer.firstElementChild as HTMLElement | null;
+    if (child)
+      child.style.filter = updated.blur ? `blur(${updated.blur}px)` : "";
+    layer.style.opacity = updated.opacity ? String(updated.opacity[0]) : "";
+    layer.style.transform = updated._baseTransform || "";
+    if (this._canvasRenderer) {
+      this._syncCanvasLayers();
+      return;
+    }
+    // 回正动画进行中时由下一帧接管，否则立即按当前偏移重绘
+    if (!this.state.rafId) this._animate();
+  }
+
+  /**
+   * 显示或隐藏单个图层（不影响图层数据）
+   */
+  public setLayerVisible(index: number, visible: boolean): void {
+    const layer = this.layers?.[index];
+    if (!layer) return;
+    layer.style.visibility = visible ? "" : "hidden";
+    this._syncCanvasLayers();
+  }
+
+  /**
+   * 将当前场景在指定偏移下的画面绘制到给定画布，不影响实时画面，用于导出截图与视频。
+   * 画布尺寸同步为容器尺寸；视频与粒子按调用时刻的状态绘制。
+   * @param {HTMLCanvasElement} canvas - 目标画布
+   * @param {number} moveX - 模拟的水平指针偏移（px）
+   * @param {number} [moveY] - 模拟的垂直指针偏移（px），默认 0
+   */
+  public captureFrame(
+    canvas: HTMLCanvasElement,
+    moveX: number,
+    moveY: number = 0,
+  ): void {
+    if (!this.container) return;
+    const { clientWidth, clientHeight } = this.container;
+    if (canvas.width !== clientWidth) canvas.width = clientWidth;
+    if (canvas.height !== clientHeight) canvas.height = clientHeight;
+
+    const renderer = new CanvasRenderer(canvas);
+    if (this.simpleVideoMode) {
+      const video = this._scene?.querySelector("video");
+      if (video) renderer.drawCover(video, this.framing.focus);
+      return;
+    }
+    const options = {
+      viewportWidth: window.innerWidth,
+      moveY,
+      time: this._clockTime,
+    };
+    renderer.draw(
+      this._collectCanvasLayers(),
+      computeFrame(this.allLayersData, moveX, options),
+      this._collectCanvasParticles(),
+      this._computeParticleOffsets(moveX, options),
+    );
+  }
+
+  /**
+   * 请求陀螺仪权限（iOS 13+ 需在用户手势回调中调用）
+   * @returns {Promise<boolean>} 是否可以接收 deviceorientation 事件
+   */
+  public async requestOrientationPermission(): Promise<boolean> {
+    const ctor = window.DeviceOrientationEvent as unknown as
+      | { requestPermission?: () => Promise<PermissionState> }
+      | undefined;
+    if (!ctor) return false;
+    if (typeof ctor.requestPermission !== "function") return true;
+    try {
+      return (await ctor.requestPermission()) === "granted";
+    } catch {
+      return false;
+    }
   }
 
   private _stopAnimation(): void {
+    this.state.homingProgress = null;
     if (this.state.rafId) {
       cancelAnimationFrame(this.state.rafId);
       this.state.rafId = 0;
     }
   }
 
+  /**
+   * 按容器尺寸与当前 Banner 的取景参数计算缩放系数与取景平移
+   */
   private _calcCompensate(): void {
-    this.compensate =
-      window.innerWidth > this.config.baseWidth
-        ? window.innerWidth / this.config.baseWidth
-        : 1;
+    const fit = computeFraming(
+      this.container?.clientWidth || window.innerWidth,
+      this.container?.clientHeight || DESIGN_HEIGHT,
+      this.framing,
+    );
+    this.compensate = fit.scale;
+    this.shiftX = fit.shiftX;
+    this.shiftY = fit.shiftY;
   }
 
-  private _destroyVideos(): void {
-    if (this.container) {
-      const videos = this.container.querySelectorAll("video");
+  private _destroyVideos(root: ParentNode | null = this.container): void {
+    if (root) {
+      const videos = root.querySelectorAll("video");
       videos.forEach((video) => {
         video.pause();
         video.removeAttribute("src");
@@ -140,144 +575,405 @@ export default class BannerEngine {
     }
   }
 
+  /**
+   * 回收已离场的场景：停止其粒子系统与 canvas 渲染器、释放视频并移出 DOM
+   */
+  private _disposeScene(
+    scene: HTMLElement | null,
+    particleLayers: ParticleLayerState[],
+    canvasRenderer: CanvasRenderer | null,
+  ): void {
+    canvasRenderer?.dispose();
+    for (const item of particleLayers) item.system.dispose();
+    if (scene) {
+      this._destroyVideos(scene);
+      scene.remove();
+    }
+  }
+
+  /**
+   * 立即结束进行中的过渡，使其旧场景按正常流程回收
+   */
+  private _finishTransitions(): void {
+    const running = this._transitions;
+    this._transitions = [];
+    for (const animation of running) animation.finish();
+  }
+
   /**
    * 安全销毁：清空DOM，注销事件，取消动画帧，解决内存泄漏
    */
   public destroy(): void {
     this._stopAnimation();
+    this._syncClock(false);
+    this._finishTransitions();
     this._destroyVideos();
-    this._particleSystem?.dispose();
-    this._particleSystem = null;
-    this._particleCanvas = null;
+    this._canvasRenderer?.dispose();
+    this._canvasRenderer = null;
+    for (const item of this._particleLayers) item.system.dispose();
+    this._particleLayers = [];
+    this._sceneCanvas = null;
     if (this.container) {
-      this.container.removeEventListener("mouseenter", this._boundMouseEnter);
-      this.container.removeEventListener("mousemove", this._boundMouseMove);
-      this.container.removeEventListener("mouseleave", this._boundMouseLeave);
+      this.container.removeEventListener(
+        "pointerenter",
+        this._boundPointerEnter,
+      );
+      this.container.removeEventListener("pointerdown", this._boundPointerDown);
+      this.container.removeEventListener("pointermove", this._boundPointerMove);
+      this.container.removeEventListener("pointerup", this._boundPointerUp);
+      this.container.removeEventListener("pointercancel", this._boundPointerUp);
+      this.container.removeEventListener(
+        "pointerleave",
+        this._boundPointerLeave,
+      );
       this.container.innerHTML = "";
     }
+    window.removeEventListener("deviceorientation", this._boundOrientation);
     window.removeEventListener("resize", this._boundResize);
     window.removeEventListener("blur", this._boundBlur);
+    document.removeEventListener(
+      "visibilitychange",
+      this._boundVisibilityChange,
+    );
+    this._motionQuery?.removeEventListener("change", this._boundMotionChange);
+    this._motionQuery = null;
+    this._visibilityObserver?.disconnect();
+    this._visibilityObserver = null;
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    this._pauseReasons.clear();
 
     this.allLayersData = [];
+    this._springs = [];
     this.layers = null;
+    this._scene = null;
+    this._preloaded.clear();
+    this._sceneToken++;
+
+    this._events.emit("destroy", undefined);
+    this._events.clear();
   }
 
   /**
    * 更新数据源并重新渲染 (防腐层 + 策略路由)
+   * 开启预加载时，旧场景会保留到新场景素材全部解码完成，期间显示加载进度；
+   * 若加载过程中再次调用，先前的切换将被放弃。
+   * 新场景挂载后与旧场景执行过渡动画，结束后再回收旧场景。
    * @param {StandardBannerData} dto - 必须接受格式化后的标准数据
+   * @param {UpdateDataOptions} [options] - 本次切换的选项
    */
-  public updateData(dto: StandardBannerData): void {
+  public async updateData(
+    dto: StandardBannerData,
+    options: UpdateDataOptions = {},
+  ): Promise<void> {
+    const token = ++this._sceneToken;
+
+    if (dto.type !== "simple-video" && dto.type !== "parallax") {
+      console.warn("[BannerEngine] Unknown banner target type.");
+      return;
+    }
+
+    if (options.preload ?? this.preload) {
+      this._showLoading();
+      const assets = await this._preloader.load(collectAssetSources(dto), {
+        onProgress: (progress) => {
+          if (token !== this._sceneToken) return;
+          this._updateLoading(progress);
+          this._events.emit("loadProgress", progress);
+        },
+      });
+      if (token !== this._sceneToken) return;
+      this._preloaded = assets;
+    }
+
     this._stopAnimation();
-    this._destroyVideos();
-    this._particleSystem?.dispose();
-    this._particleSystem = null;
-    this._particleCanvas = null;
+    this._finishTransitions();
+
+    // 旧场景暂不销毁，交给过渡动画结束后回收
+    const outgoingScene = this._scene;
+    const outgoingParticles = this._particleLayers;
+    const outgoingRenderer = this._canvasRenderer;
+    this._particleLayers = [];
+    this._sceneCanvas = null;
+    this._canvasRenderer = null;
 
     this.layers = null;
+    this._physics = resolvePhysics(this.physics, dto.physics);
+    this.framing = dto.framing || {};
+    this._clockTime = 0;
+    this.state.stepTime = 0;
+    const scene = this._mountScene();
 
     // 策略路由
     switch (dto.type) {
       case "simple-video":
         this.simpleVideoMode = true;
         this.allLayersData = [];
+        this._springs = [];
         this._renderSimpleVideo(dto.payload as SimpleVideoData);
         break;
       case "parallax": {
         this.simpleVideoMode = false;
         this._calcCompensate();
 
-        // 分离粒子配置与正常图层
+        // 分离粒子配置与正常图层，粒子层记录其在图层序列中的位置
         const rawPayload = dto.payload as Array<
           ParallaxLayer | ParticleLayerConfig
         >;
-        const parallaxLayers = rawPayload.filter(
-          (item): item is ParallaxLayer => item.type !== "particle",
-        );
-        const particleConfig =
-          rawPayload.find(
-            (item): item is ParticleLayerConfig => item.type === "particle",
-          ) || null;
+        const parallaxLayers: ParallaxLayer[] = [];
+        const particleSlots: Array<{
+          config: ParticleLayerConfig;
+          index: number;
+        }> = [];
+        for (const item of rawPayload) {
+          if (item.type === "particle") {
+            particleSlots.push({ config: item, index: parallaxLayers.length });
+          } else {
+            parallaxLayers.push(item);
+          }
+        }
         this._initParallaxData(parallaxLayers);
+        // 新场景的图层从静止位置出发，开启弹簧时会平滑追上当前指针
+        this._springs = parallaxLayers.map(() => createSpringState(0, 0));
         this._renderParallax();
-
-        // 启动粒子系统
-        if (particleConfig && this.container && this._particleCanvas) {
-          const ps = new ParticleSystem(this._particleCanvas, particleConfig);
-          this._particleSystem = ps;
-          ps.start();
-        }
+        this._startParticles(particleSlots);
         break;
       }
-      default:
-        console.warn("[BannerEngine] Unknown banner target type.");
     }
+
+    // 未被复用的预加载元素（例如粒子贴图）此时已进入缓存，释放引用即可
+    this._preloaded.clear();
+    this._hideLoading();
+    this._syncPlayback();
+
+    const animations = playTransition(outgoingScene, scene, {
+      ...this.transition,
+      ...options.transition,
+    });
+    if (animations.length === 0) {
+      this._disposeScene(outgoingScene, outgoingParticles, outgoingRenderer);
+    } else {
+      this._transitions = animations;
+      Promise.allSettled(animations.map((a) => a.finished)).then(() => {
+        this._disposeScene(outgoingScene, outgoingParticles, outgoingRenderer);
+      });
+    }
+
+    this._events.emit("dataChange", { data: dto });
   }
 
   // ─────────────────────── 微观构建工厂 (DOM Factory) ───────────────────────
 
+  /**
+   * 在容器中挂载新的场景根节点（位于旧场景之上）
+   */
+  private _mountScene(): HTMLElement {
+    const scene = document.createElement("div");
+    scene.className = "banner-scene";
+    if (this.container) {
+      // 首个场景挂载前清掉容器内的初始占位文本
+      if (!this._scene) this.container.textContent = "";
+      this.container.appendChild(scene);
+    }
+    this._scene = scene;
+    return scene;
+  }
+
   private _createLayerElement(
     item: ParallaxLayer,
+  ): HTMLImageElement | HTMLVideoElement | HTMLDivElement {
+    if (item.type !== "sprite") return this._createMedia(item.src, item.type);
+
+    // 序列帧：裁切框按单帧宽高比显示，框内整张精灵图按帧平移
+    const { sprite } = item;
+    const { columns, rows } = spriteGrid(sprite);
+    const box = document.createElement("div");
+    box.className = "sprite";
+    box.style.aspectRatio = `${sprite.frameWidth} / ${sprite.frameHeight}`;
+    const sheet = this._createMedia(item.src, "image");
+    sheet.style.width = `${columns * 100}%`;
+    sheet.style.height = `${rows * 100}%`;
+    box.appendChild(sheet);
+    this._showSpriteFrame(
+      box,
+      sprite,
+      sprite.drive === "pointer" ? spriteFrameForOffset(sprite, 0, 1) : 0,
+    );
+    return box;
+  }
+
+  /**
+   * 图层中实际承载素材的媒体元素（序列帧图层为裁切框内的精灵图）
+   */
+  private _getLayerMedia(
+    layer: HTMLElement,
+  ): HTMLImageElement | HTMLVideoElement {
+    const child = layer.firstElementChild as HTMLElement;
+    return (
+      child.classList.contains("sprite") ? child.firstElementChild : child
+    ) as HTMLImageElement | HTMLVideoElement;
+  }
+
+  private _showSpriteFrame(
+    box: HTMLElement,
+    sprite: SpriteConfig,
+    index: number,
+  ): void {
+    const sheet = box.firstElementChild as HTMLElement | null;
+    if (!sheet) return;
+    const { columns, rows } = spriteGrid(sprite);
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    sheet.style.transform = `translate(${(-column / columns) * 100}%, ${(-row / rows) * 100}%)`;
+  }
+
+  /**
+   * 创建媒体元素，优先复用预加载阶段已解码的元素（每个元素只能复用一次）
+   */
+  private _createMedia(
+    src: string,
+    type: LayerType,
   ): HTMLImageElement | HTMLVideoElement {
-    if (item.type === "video") {
-      const child = document.createElement("video");
+    const preloaded = this._preloaded.get(src);
+    if (type === "video") {
+      const reused = preloaded instanceof HTMLVideoElement ? preloaded : null;
+      const child = reused || document.createElement("video");
       child.loop = true;
       child.autoplay = true;
       child.muted = true;
       child.playsInline = true; // 补齐遗漏的重要移动端播放属性
-      child.src = import.meta.env.BASE_URL + item.src.replace(/^\//, "");
+      if (reused) {
+        this._preloaded.delete(src);
+        // 已加载完成的视频不会再触发 autoplay，需要手动播放
+        reused.play().catch(() => {});
+      } else {
+        child.src = import.meta.env.BASE_URL + src.replace(/^\//, "");
+      }
       return child;
     } else {
+      if (preloaded instanceof HTMLImageElement) {
+        this._preloaded.delete(src);
+        return preloaded;
+      }
       const child = document.createElement("img");
-      child.src = import.meta.env.BASE_URL + item.src.replace(/^\//, "");
+      child.src = import.meta.env.BASE_URL + src.replace(/^\//, "");
       return child;
     }
   }
 
-  private _initParallaxData(layers: ParallaxLayer[]): void {
-    this.allLayersData = layers.map((item) => {
-      const baseTransform = [...item.transform];
-      baseTransform[4] *= this.compensate;
-      baseTransform[5] *= this.compensate;
+  // ─────────────────────── 加载占位 (Loading Placeholder) ───────────────────────
 
-      // 预先组装最内层的基础矩阵变换字符串备用
-      const _baseTransform = `matrix(${baseTransform[0]}, ${baseTransform[1]}, ${baseTransform[2]}, ${baseTransform[3]}, ${baseTransform[4]}, ${baseTransform[5]})`;
+  private _showLoading(): void {
+    if (!this.container || this.container.querySelector(".banner-loading")) {
+      return;
+    }
+    const overlay = document.createElement("div");
+    overlay.className = "banner-loading";
+    const bar = document.createElement("div");
+    bar.className = "banner-loading-bar";
+    overlay.appendChild(bar);
+    this.container.appendChild(overlay);
+  }
 
-      return {
-        ...item,
-        _baseTransform,
-        _aCompensated: item.a,
-        _gCompensated: item.g || 0,
-      };
+  private _hideLoading(): void {
+    this.container?.querySelector(".banner-loading")?.remove();
+  }
+
+  private _updateLoading(progress: PreloadProgress): void {
+    const bar = this.container?.querySelector(
+      ".banner-loading-bar",
+    ) as HTMLElement | null;
+    if (!bar) return;
+    const ratio = progress.total > 0 ? progress.loaded / progress.total : 1;
+    bar.style.width = `${ratio * 100}%`;
+  }
+
+  /**
+   * 监听场景内所有媒体元素的加载结果，全部结束后派发 ready
+   */
+  private _watchReady(
+    elements: Array<HTMLImageElement | HTMLVideoElement>,
+    srcs: string[],
+  ): void {
+    const token = this._sceneToken;
+    let pending = elements.length;
+    let failedCount = 0;
+
+    const settle = () => {
+      if (token !== this._sceneToken) return;
+      pending--;
+      if (pending === 0) {
+        this._events.emit("ready", {
+          layerCount: elements.length,
+          failedCount,
+        });
+      }
+    };
+
+    if (pending === 0) {
+      // 等待调用方完成当前同步流程后再通知
+      queueMicrotask(() => {
+        if (token !== this._sceneToken) return;
+        this._events.emit("ready", { layerCount: 0, failedCount: 0 });
+      });
+      return;
+    }
+
+    elements.forEach((el, index) => {
+      // 复用的预加载元素已完成加载，不会再触发 load 事件
+      const isLoaded =
+        el instanceof HTMLVideoElement
+          ? el.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA
+          : el.complete && el.naturalWidth > 0;
+      if (isLoaded) {
+        queueMicrotask(settle);
+        return;
+      }
+      const loadEvent = el instanceof HTMLVideoElement ? "loadeddata" : "load";
+      el.addEventListener(loadEvent, settle, { once: true });
+      el.addEventListener(
+        "error",
+        () => {
+          if (token !== this._sceneToken) return;
+          failedCount++;
+          this._events.emit("layerError", { index, src: srcs[index] });
+          settle();
+        },
+        { once: true },
+      );
     });
   }
 
+  private _initParallaxData(layers: ParallaxLayer[]): void {
+    this.allLayersData = layers.map((item) =>
+      prepareLayer(item, this.compensate, this.shiftX, this.shiftY),
+    );
+  }
+
   /**
    * 单视频模式渲染管线
    */
   private _renderSimpleVideo(data: SimpleVideoData): void {
-    if (!this.container) return;
+    if (!this._scene) return;
     const wrapper = document.createElement("div");
     wrapper.className = "simple-video-container";
 
-    const video = document.createElement("video");
-    video.src = import.meta.env.BASE_URL + data.src.replace(/^\//, "");
-    video.loop = true;
-    video.autoplay = true;
-    video.muted = true;
-    video.playsInline = true;
+    const video = this._createMedia(data.src, "video");
+    const { focus } = this.framing;
+    if (focus) {
+      video.style.objectPosition = `${focus[0] * 100}% ${focus[1] * 100}%`;
+    }
 
     wrapper.appendChild(video);
-    if (this.container) {
-      this.container.innerHTML = "";
-      this.container.appendChild(wrapper);
-    }
+    this._scene.appendChild(wrapper);
+    this._watchReady([video], [data.src]);
   }
 
   /**
    * 多图层视差渲染管线
    */
   private _renderParallax(): void {
-    if (!this.container) return;
+    if (!this.container || !this._scene) return;
 
     // 窗口尺寸变化时的快速更新
     if (this.layers && this.layers.length > 0) {
@@ -286,17 +982,21 @@ export default class BannerEngine {
         const child = this.layers[i].firstElementChild as HTMLElement;
         if (child) {
           child.style.width = `${item.width * this.compensate}px`;
-          child.style.height = `${item.height * this.compensate}px`;
+          if (item.height) {
+            child.style.height = `${item.height * this.compensate}px`;
+          }
         }
         if (item._baseTransform) {
           this.layers[i].style.transform = item._baseTransform;
         }
       }
+      this._syncCanvasLayers();
       return;
     }
 
     // 首次渲染
     const fragment = document.createDocumentFragment();
+    const children: Array<HTMLImageElement | HTMLVideoElement> = [];
     for (let i = 0; i < this.allLayersData.length; i++) {
       const item = this.allLayersData[i];
       const layer = document.createElement("div");
@@ -310,144 +1010,612 @@ export default class BannerEngine {
       const child = this._createLayerElement(item);
       if (item.blur) child.style.filter = `blur(${item.blur}px)`;
       child.style.width = `${item.width * this.compensate}px`;
-      child.style.height = `${item.height * this.compensate}px`;
+      if (item.height) {
+        child.style.height = `${item.height * this.compensate}px`;
+      }
 
       layer.appendChild(child);
       fragment.appendChild(layer);
+      children.push(this._getLayerMedia(layer));
     }
 
-    if (this.container) {
-      this.container.innerHTML = "";
-      this.container.appendChild(fragment);
-      this.layers = this.container.querySelectorAll(".layer");
-
-      // 创建粒子画布（浮层，不干扰鼠标交互）
-      const canvas = document.createElement("canvas");
-      canvas.width = this.container.clientWidth;
-      canvas.height = this.container.clientHeight;
-      canvas.className = "particle-canvas";
-      this.container.appendChild(canvas);
-      this._particleCanvas = canvas;
+    // canvas 后端下图层只作为媒体源保留在文档中（保证视频持续解码），不参与合成
+    let host = this._scene;
+    if (this.renderer === "canvas") {
+      host = document.createElement("div");
+      host.className = "banner-canvas-sources";
+      this._scene.appendChild(host);
     }
+    host.appendChild(fragment);
+    this.layers = this._scene.querySelectorAll(".layer");
+
+    // canvas 后端在单张画布上合成所有图层与粒子
+    if (this.renderer === "canvas") {
+      const canvas = this._createParticleCanvas();
+      this._scene.appendChild(canvas);
+      this._sceneCanvas = canvas;
+      const renderer = new CanvasRenderer(canvas);
+      this._canvasRenderer = renderer;
+      for (const child of children) {
+        const loadEvent =
+          child instanceof HTMLVideoElement ? "loadeddata" : "load";
+        child.addEventListener(loadEvent, () => renderer.requestRender(), {
+          once: true,
+        });
+      }
+      this._syncCanvasLayers();
+    }
+
+    this._watchReady(
+      children,
+      this.allLayersData.map((item) => item.src),
+    );
   }
 
   /**
-   * 线性插值
+   * 创建与容器等大的画布（浮层，不干扰鼠标交互）
    */
-  private _lerp(start: number, end: number, amt: number): number {
-    return (1 - amt) * start + amt * end;
+  private _createParticleCanvas(): HTMLCanvasElement {
+    const canvas = document.createElement("canvas");
+    canvas.width = this.container?.clientWidth || 0;
+    canvas.height = this.container?.clientHeight || 0;
+    canvas.className = "particle-canvas";
+    return canvas;
   }
 
   /**
-   * 物理动画引擎（脱离 DOMMatrix，纯数值运算）
-   * @param {number} [progress] - 自动回正帧进度 0-1
+   * 启动所有粒子层。DOM 后端为每层创建独立画布并插入到对应图层之前；
+   * canvas 后端共用合成画布，由渲染器逐帧驱动并按位置穿插绘制
    */
-  private _animate(progress?: number): void {
-    if (!this.layers || this.layers.length <= 0) return;
-    const isHoming = typeof progress === "number";
-    const moveX = this.state.moveX;
+  private _startParticles(
+    slots: Array<{ config: ParticleLayerConfig; index: number }>,
+  ): void {
+    const scene = this._scene;
+    if (!scene) return;
+    const renderer = this._canvasRenderer;
+    const sceneCanvas = this._sceneCanvas;
+
+    this._particleLayers = slots.map(({ config, index }) => {
+      if (renderer && sceneCanvas) {
+        const system = new ParticleSystem(sceneCanvas, config);
+        system
+          .load()
+          .then(() => renderer.requestRender())
+          .catch((e) => this._dropParticleLayer(system, e));
+        return {
+          config,
+          index,
+          system,
+          canvas: null,
+          offset: NO_OFFSET,
+          spring: createSpringState(0, 0),
+        };
+      }
+      const canvas = this._createParticleCanvas();
+      scene.insertBefore(canvas, this.layers?.[index] || null);
+      const system = new ParticleSystem(canvas, config);
+      system.start().catch((e) => this._dropParticleLayer(system, e));
+      return {
+        config,
+        index,
+        system,
+        canvas,
+        offset: NO_OFFSET,
+        spring: createSpringState(0, 0),
+      };
+    });
+
+    renderer?.setParticles(this._collectCanvasParticles());
+  }
+
+  /**
+   * 移除贴图加载失败的粒子层，不影响同一场景中的其他图层
+   */
+  private _dropParticleLayer(system: ParticleSystem, error: unknown): void {
+    console.warn("[BannerEngine] Particle layer failed to load.", error);
+    system.dispose();
+    const item = this._particleLayers.find((layer) => layer.system === system);
+    if (!item) return; // 场景已切换，旧粒子层随旧场景回收
+    item.canvas?.remove();
+    this._particleLayers = this._particleLayers.filter(
+      (layer) => layer !== item,
+    );
+    if (this._canvasRenderer) {
+      this._canvasRenderer.setParticles(this._collectCanvasParticles());
+      this._canvasRenderer.requestRender();
+    }
+  }
 
+  /**
+   * 将当前图层数据与可见性同步给 canvas 渲染器，并按当前偏移重算一帧
+   */
+  private _syncCanvasLayers(): void {
+    if (!this._canvasRenderer) return;
+    this._canvasRenderer.setLayers(this._collectCanvasLayers());
+    if (!this.state.rafId) this._animate();
+  }
+
+  /**
+   * 以当前场景的媒体元素与图层数据组装 canvas 绘制列表
+   */
+  private _collectCanvasLayers(): CanvasLayer[] {
+    const layers: CanvasLayer[] = [];
+    if (!this.layers) return layers;
     for (let i = 0; i < this.layers.length; i++) {
-      const layer = this.layers[i];
       const item = this.allLayersData[i];
+      layers.push({
+        source: this._getLayerMedia(this.layers[i]),
+        layer: item,
+        width: item.width * this.compensate,
+        height: item.height ? item.height * this.compensate : undefined,
+        visible: this.layers[i].style.visibility !== "hidden",
+      });
+    }
+    return layers;
+  }
 
-      const a = item._aCompensated || 0;
+  private _collectCanvasParticles(): CanvasParticleLayer[] {
+    return this._particleLayers.map((item) => ({
+      particles: item.system,
+      index: item.index,
+    }));
+  }
 
-      let currentMoveX = moveX;
-      if (isHoming) {
-        currentMoveX = this._lerp(moveX, 0, progress as number);
-      }
+  /**
+   * 计算各粒子层的视差平移，顺序与 _collectCanvasParticles 一致
+   */
+  private _computeParticleOffsets(
+    moveX: number,
+    options: { progress?: number; viewportWidth: number },
+  ): ParticleOffset[] {
+    return this._particleLayers.map((item) =>
+      computeParticleOffset(item.config, moveX, options),
+    );
+  }
 
-      const move = currentMoveX * a;
-      const s = item.f ? item.f * currentMoveX + 1 : 1;
-      const g = currentMoveX * (item._gCompensated || 0);
+  /**
+   * 将视差数学模块算出的帧数据写入图层样式。
+   * 开启弹簧跟随时，每个图层按各自弹簧所处的偏移计算（由 _stepSprings 推进）
+   * @param {number} [progress] - 自动回正帧进度 0-1（已经过缓动）
+   */
+  private _animate(progress?: number): void {
+    if (!this.layers || this.layers.length <= 0) return;
+    const viewportWidth = window.innerWidth;
+    const time = this._clockTime;
+    let frames: LayerFrame[];
+    let offsets: ParticleOffset[];
+    if (this._physics.spring) {
+      frames = this.allLayersData.map((item, i) => {
+        const spring = this._springs[i];
+        return computeLayerFrame(item, spring.x, {
+          viewportWidth,
+          moveY: spring.y,
+          time,
+        });
+      });
+      offsets = this._particleLayers.map((item) =>
+        computeParticleOffset(item.config, item.spring.x, {
+          viewportWidth,
+          moveY: item.spring.y,
+        }),
+      );
+    } else {
+      const options = {
+        progress,
+        viewportWidth,
+        moveY: this.state.moveY,
+        time,
+      };
+      frames = computeFrame(this.allLayersData, this.state.moveX, options);
+      offsets = this._computeParticleOffsets(this.state.moveX, options);
+    }
 
-      let finalTransform = `${item._baseTransform} matrix(${s}, 0, 0, ${s}, ${move}, ${g})`;
+    // 粒子风力跟随指针偏移，回正时随之减弱
+    const currentMoveX =
+      typeof progress === "number"
+        ? lerp(this.state.moveX, 0, progress)
+        : this.state.moveX;
+    this._particleLayers.forEach((item, i) => {
+      item.offset = offsets[i];
+      item.system.setWind(currentMoveX / (window.innerWidth / 2));
+    });
 
-      if (item.deg) {
-        const currentDeg = isHoming
-          ? this._lerp(item.deg * moveX, 0, progress as number)
-          : item.deg * moveX;
-        finalTransform += ` rotate(${currentDeg * BannerEngine.DEG2RAD}deg)`;
-      }
+    if (this._canvasRenderer) {
+      this._canvasRenderer.setFrames(frames, offsets);
+      return;
+    }
 
-      layer.style.transform = finalTransform;
+    this._particleLayers.forEach((item, i) => {
+      const offset = offsets[i];
+      if (item.canvas) {
+        item.canvas.style.transform = `translate(${offset.translateX}px, ${offset.translateY}px)`;
+      }
+    });
 
-      if (item.opacity) {
-        if (item.opacity.length !== 3) {
-          throw new Error(
-            `[BannerEngine] Invalid opacity length: expected 3, got ${item.opacity.length}`,
-          );
-        }
-        const opDef = item.opacity[0];
-        const opLeft = item.opacity[1];
-        const opRight = item.opacity[2];
-
-        const ratio = Math.min(
-          Math.abs((currentMoveX / window.innerWidth) * 2),
-          1,
-        );
-        const targetOpacity =
-          currentMoveX < 0
-            ? this._lerp(opDef, opLeft, ratio)
-            : this._lerp(opDef, opRight, ratio);
-
-        layer.style.opacity = String(targetOpacity);
+    for (let i = 0; i < this.layers.length; i++) {
+      const layer = this.layers[i];
+      const frame = frames[i];
+      layer.style.transform = frame.transform;
+      if (frame.opacity !== null) layer.style.opacity = String(frame.opacity);
+      const item = this.allLayersData[i];
+      if (item.type === "sprite" && frame.spriteFrame !== null) {
+        const box = layer.firstElementChild as HTMLElement | null;
+        if (box) this._showSpriteFrame(box, item.sprite, frame.spriteFrame);
       }
     }
   }
 
-  // ─────────────────────── 鼠标及系统事件处理器 ───────────────────────
+  // ─────────────────────── 指针及系统事件处理器 ───────────────────────
+
+  private _handlePointerEnter(e: PointerEvent): void {
+    if (this.simpleVideoMode || e.pointerType !== "mouse") return;
+    this.state.initX = e.pageX;
+    this.state.initY = e.pageY;
+  }
 
-  private _handleMouseEnter(e: MouseEvent): void {
+  /**
+   * 触摸/手写笔按下时记录起点并捕获指针，拖拽期间驱动视差
+   */
+  private _handlePointerDown(e: PointerEvent): void {
     if (this.simpleVideoMode) return;
+    this._burstParticles(e);
+    if (e.pointerType === "mouse") return;
+    if (this.state.activePointerId !== null) return;
+    this.state.activePointerId = e.pointerId;
     this.state.initX = e.pageX;
+    this.state.initY = e.pageY;
+    this.container?.setPointerCapture(e.pointerId);
   }
 
-  private _handleMouseMove(e: MouseEvent): void {
+  private _handlePointerMove(e: PointerEvent): void {
     if (this.simpleVideoMode) return;
-    this.state.moveX = e.pageX - this.state.initX;
+    if (e.pointerType !== "mouse" && e.pointerId !== this.state.activePointerId)
+      return;
+    this._feedParticlePointer(e);
+    this._moveTo(e.pageX - this.state.initX, e.pageY - this.state.initY);
+  }
+
+  private _handlePointerUp(e: PointerEvent): void {
+    if (e.pointerId !== this.state.activePointerId) return;
+    this.state.activePointerId = null;
+    if (this.container?.hasPointerCapture(e.pointerId)) {
+      this.container.releasePointerCapture(e.pointerId);
+    }
+    this._feedParticlePointer(null);
+    this._homeBack();
+  }
+
+  private _handlePointerLeave(e: PointerEvent): void {
+    // 触摸指针在抬起时也会触发 leave，交由 pointerup 统一处理
+    if (e.pointerType !== "mouse") return;
+    this._feedParticlePointer(null);
+    this._homeBack();
+  }
+
+  /**
+   * 将指针位置同步给开启了交互的粒子层，指针离开时传 null
+   */
+  private _feedParticlePointer(e: PointerEvent | null): void {
+    const layers = this._particleLayers.filter(
+      (item) => item.config.interaction,
+    );
+    if (layers.length === 0) return;
+    const rect = e && this.container?.getBoundingClientRect();
+    for (const item of layers) {
+      item.system.setPointer(
+        e && rect ? this._toParticlePoint(e, rect, item) : null,
+      );
+    }
+  }
+
+  /**
+   * 点击/触摸位置喷出粒子（暂停或减弱动效时不响应）
+   */
+  private _burstParticles(e: PointerEvent): void {
+    if (this.isPaused() || this._reducedMotion || e.button > 0) return;
+    const layers = this._particleLayers.filter(
+      (item) => item.config.interaction?.burst,
+    );
+    const rect = this.container?.getBoundingClientRect();
+    if (layers.length === 0 || !rect) return;
+    for (const item of layers) {
+      const { x, y } = this._toParticlePoint(e, rect, item);
+      item.system.burst(x, y);
+    }
+  }
+
+  /**
+   * 指针的容器坐标扣除粒子层当前的视差平移，即为粒子画布坐标
+   */
+  private _toParticlePoint(
+    e: PointerEvent,
+    rect: DOMRect,
+    item: ParticleLayerState,
+  ): { x: number; y: number } {
+    return {
+      x: e.clientX - rect.left - item.offset.translateX,
+      y: e.clientY - rect.top - item.offset.translateY,
+    };
+  }
+
+  /**
+   * 将设备左右倾斜角（gamma）与前后倾斜角（beta）映射为与指针相同量纲的偏移
+   */
+  private _handleOrientation(e: DeviceOrientationEvent): void {
+    if (this.simpleVideoMode || e.gamma === null) return;
+    // 触摸拖拽优先于陀螺仪
+    if (this.state.activePointerId !== null) return;
+    if (this.state.orientationBase === null) {
+      this.state.orientationBase = e.gamma;
+    }
+    if (this.state.orientationBaseY === null && e.beta !== null) {
+      this.state.orientationBaseY = e.beta;
+    }
+    const range = this.orientationRange;
+    const clampTilt = (tilt: number) => Math.max(-range, Math.min(range, tilt));
+    const tiltX = clampTilt(e.gamma - this.state.orientationBase);
+    const tiltY =
+      e.beta === null || this.state.orientationBaseY === null
+        ? 0
+        : clampTilt(e.beta - this.state.orientationBaseY);
+    const halfWidth = (this.container?.clientWidth || window.innerWidth) / 2;
+    const halfHeight = (this.container?.clientHeight || 0) / 2;
+    this._moveTo((tiltX / range) * halfWidth, (tiltY / range) * halfHeight);
+  }
+
+  private _moveTo(moveX: number, moveY: number = 0): void {
+    if (this.isPaused()) return;
+    if (this._reducedMotion) {
+      moveX *= this.reducedMotionParallax;
+      moveY *= this.reducedMotionParallax;
+    }
+    this.state.moveX = moveX;
+    this.state.moveY = moveY;
+    this._events.emit("move", { moveX, moveY });
 
     this._stopAnimation();
-    this.state.rafId = requestAnimationFrame(() => this._animate());
+    this.state.rafId = requestAnimationFrame(this._followPointer);
   }
 
-  private _handleMouseLeave(): void {
-    if (this.simpleVideoMode) return;
+  /**
+   * 跟随指针：直接跟随时只需绘制一帧，弹簧跟随时持续推进直到停稳
+   */
+  private _followPointer(timestamp: DOMHighResTimeStamp): void {
+    const { moveX, moveY } = this.state;
+    const settled = this._stepSprings(moveX, moveY, timestamp);
+    this._animate();
+    this.state.rafId = settled ? 0 : requestAnimationFrame(this._followPointer);
+  }
+
+  /**
+   * 将所有图层的弹簧向目标偏移推进一帧，未开启弹簧时什么也不做
+   * @returns {boolean} 是否全部停稳
+   */
+  private _stepSprings(
+    targetX: number,
+    targetY: number,
+    timestamp: DOMHighResTimeStamp,
+  ): boolean {
+    const spring = this._physics.spring;
+    if (!spring) return true;
+    const last = this.state.stepTime;
+    const dt = last
+      ? Math.min((timestamp - last) / 1000, MAX_SPRING_STEP)
+      : 1 / 60;
+    this.state.stepTime = timestamp;
+
+    let settled = true;
+    const step = (state: SpringState, inertia?: number) => {
+      const next =
+        dt > 0
+          ? stepSpring(
+              state,
+              targetX,
+              targetY,
+              withInertia(spring, inertia),
+              dt,
+            )
+          : state;
+      if (!isAtRest(next, targetX, targetY)) settled = false;
+      return next;
+    };
+    this._springs = this._springs.map((state, i) =>
+      step(state, this.allLayersData[i]?.inertia),
+    );
+    for (const item of this._particleLayers) {
+      item.spring = step(item.spring, item.config.inertia);
+    }
+    if (settled) this.state.stepTime = 0;
+    return settled;
+  }
+
+  /**
+   * 所有弹簧立即停在当前偏移（例如切换为减弱动效时）
+   */
+  private _snapSprings(): void {
+    const { moveX, moveY } = this.state;
+    this._springs = this._springs.map(() => createSpringState(moveX, moveY));
+    for (const item of this._particleLayers) {
+      item.spring = createSpringState(moveX, moveY);
+    }
+    this.state.stepTime = 0;
+  }
+
+  /**
+   * 从当前偏移缓动回正
+   */
+  private _homeBack(): void {
+    const { moveX, moveY } = this.state;
+    if (this.simpleVideoMode || (moveX === 0 && moveY === 0)) return;
+    if (this.isPaused()) return;
+    this._events.emit("homingStart", { fromX: moveX, fromY: moveY });
     this.state.startTime = 0;
     this._stopAnimation();
     this.state.rafId = requestAnimationFrame(this._resetPosition);
   }
 
+  // ─────────────────────── 动效与暂停控制 ───────────────────────
+
+  private _handleVisibilityChange(): void {
+    this._setPauseReason("hidden", document.hidden);
+  }
+
+  private _syncMotionPreference(): void {
+    const reduced =
+      this.motion === "reduced" ||
+      (this.motion === "auto" && !!this._motionQuery?.matches);
+    if (reduced === this._reducedMotion) return;
+    this._reducedMotion = reduced;
+    if (reduced) {
+      // 立即回到静止位置，后续输入按比例减弱
+      this._stopAnimation();
+      this.state.moveX = 0;
+      this.state.moveY = 0;
+      this._snapSprings();
+      this._animate();
+    }
+    this._syncPlayback();
+  }
+
+  private _setPauseReason(reason: PauseReason, active: boolean): void {
+    const wasPaused = this.isPaused();
+    if (active) this._pauseReasons.add(reason);
+    else this._pauseReasons.delete(reason);
+
+    const paused = this.isPaused();
+    if (paused === wasPaused) return;
+    if (paused) this._interruptMotion();
+    this._syncPlayback();
+    if (!paused) this._resumeMotion();
+    this._events.emit("pauseChange", {
+      paused,
+      reasons: [...this._pauseReasons],
+    });
+  }
+
+  /**
+   * 暂停时停止视差动画；回正进行到一半时把已回正的部分计入当前偏移，
+   * 恢复后从图层停住的位置继续回正
+   */
+  private _interruptMotion(): void {
+    const progress = this.state.homingProgress;
+    if (progress !== null) {
+      this.state.moveX = lerp(this.state.moveX, 0, progress);
+      this.state.moveY = lerp(this.state.moveY, 0, progress);
+    }
+    this._stopAnimation();
+    this.state.stepTime = 0;
+  }
+
+  /**
+   * 恢复后补完暂停时中断的动画：指针不在 Banner 上时回正，否则让弹簧继续追上指针
+   */
+  private _resumeMotion(): void {
+    if (this.simpleVideoMode || !this.layers) return;
+    const pointerInside =
+      this.state.activePointerId !== null ||
+      !!this.container?.matches(":hover");
+    if (!pointerInside && (this.state.moveX !== 0 || this.state.moveY !== 0)) {
+      this._homeBack();
+      return;
+    }
+    if (this._physics.spring) {
+      this.state.rafId = requestAnimationFrame(this._followPointer);
+    }
+  }
+
+  /**
+   * 按暂停状态与动效偏好同步粒子系统与视频的播放状态
+   */
+  private _syncPlayback(): void {
+    const frozen = this.isPaused() || this._reducedMotion;
+    if (this._canvasRenderer) {
+      if (frozen) this._canvasRenderer.pause();
+      else this._canvasRenderer.start();
+    } else {
+      for (const item of this._particleLayers) {
+        if (frozen) item.system.pause();
+        else item.system.resume();
+      }
+    }
+
+    this._scene?.querySelectorAll("video").forEach((video) => {
+      if (frozen) video.pause();
+      else video.play().catch(() => {});
+    });
+    // 关键帧图层与按时钟播放的序列帧图层需要持续驱动
+    const animated = this.allLayersData.some(
+      (item) =>
+        item.keyframes ||
+        (item.type === "sprite" && item.sprite.drive !== "pointer"),
+    );
+    this._syncClock(!frozen && animated);
+  }
+
+  /**
+   * 启动或停止关键帧时钟
+   */
+  private _syncClock(running: boolean): void {
+    if (running && !this._clockId) {
+      this._clockStamp = 0;
+      this._clockId = requestAnimationFrame(this._tickClock);
+    } else if (!running && this._clockId) {
+      cancelAnimationFrame(this._clockId);
+      this._clockId = 0;
+    }
+  }
+
+  private _tickClock(timestamp: DOMHighResTimeStamp): void {
+    // 单帧最多前进 100ms，避免标签页切回后动画跳跃
+    if (this._clockStamp) {
+      this._clockTime += Math.min(timestamp - this._clockStamp, 100);
+    }
+    this._clockStamp = timestamp;
+    // 跟随/回正动画本帧会绘制，无需重复
+    if (!this.state.rafId) this._animate();
+    this._clockId = requestAnimationFrame(this._tickClock);
+  }
+
+  /**
+   * 容器尺寸变化时重新取景并同步画布尺寸
+   */
   private _handleResize(): void {
-    if (this.simpleVideoMode) return;
+    if (this.simpleVideoMode || !this.layers) return;
     this._calcCompensate();
     this._initParallaxData(this.allLayersData);
     this._renderParallax();
-    if (this.container && this._particleCanvas) {
-      this._particleSystem?.resize(
-        this.container.clientWidth,
-        this.container.clientHeight,
-      );
+    if (!this.container) return;
+    const { clientWidth, clientHeight } = this.container;
+    this._canvasRenderer?.resize(clientWidth, clientHeight);
+    for (const item of this._particleLayers) {
+      item.system.resize(clientWidth, clientHeight);
     }
   }
 
-  private _easeOutQuart(x: number): number {
-    return 1 - (1 - x) ** 4;
-  }
-
   private _resetPosition(timestamp: DOMHighResTimeStamp): void {
     if (!this.state.startTime) this.state.startTime = timestamp;
     const elapsed = timestamp - this.state.startTime;
-    const progress = Math.min(elapsed / this.config.duration, 1);
-    const easeProgress = this._easeOutQuart(progress);
-
+    const { duration, easing } = this._physics;
+    const progress = duration > 0 ? Math.min(elapsed / duration, 1) : 1;
+    const easeProgress = easing(progress);
+
+    // 弹簧开启时缓动的是弹簧目标，图层随后追上，全部停稳才算回正结束
+    const { moveX, moveY } = this.state;
+    const settled = this._stepSprings(
+      lerp(moveX, 0, easeProgress),
+      lerp(moveY, 0, easeProgress),
+      timestamp,
+    );
     this._animate(easeProgress);
-    if (progress < 1) {
+    if (progress < 1 || !settled) {
+      this.state.homingProgress = easeProgress;
       this.state.rafId = requestAnimationFrame(this._resetPosition);
     } else {
       this.state.rafId = 0;
+      this.state.homingProgress = null;
       this.state.moveX = 0;
+      this.state.moveY = 0;
+      this._events.emit("homingEnd", undefined);
     }
   }
 }
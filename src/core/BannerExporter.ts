@@ -0,0 +1,125 @@
+/**
+ * Banner 导出
+ * 基于引擎当前场景的图层数据离屏绘制（BannerEngine.captureFrame），
+ * 输出指定偏移下的 PNG 截图，或录制左→右→左扫动的 WebM 预览视频。
+ * 导出过程不影响实时画面。
+ */
+
+import type BannerEngine from "./BannerEngine";
+
+export interface SweepRecordOptions {
+  amplitude?: number; // 扫动幅度（px），默认 300
+  duration?: number; // 一次完整往返的时长（ms），默认 4000
+  fps?: number; // 帧率，默认 30
+  videoBitsPerSecond?: number; // 码率，默认由浏览器决定
+}
+
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+export default class BannerExporter {
+  private engine: BannerEngine;
+
+  constructor(engine: BannerEngine) {
+    this.engine = engine;
+  }
+
+  /**
+   * 导出指定偏移下的静态画面
+   * @param {number} [moveX] - 模拟的水平指针偏移（px），默认 0 即静止画面
+   * @param {number} [moveY] - 模拟的垂直指针偏移（px），默认 0
+   * @returns {Promise<Blob>} PNG 图片
+   */
+  public exportPng(moveX: number = 0, moveY: number = 0): Promise<Blob> {
+    const canvas = document.createElement("canvas");
+    this.engine.captureFrame(canvas, moveX, moveY);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("[BannerExporter] Failed to encode PNG"));
+      }, "image/png");
+    });
+  }
+
+  /**
+   * 录制一次从最左侧扫到最右侧再回到最左侧的视频
+   * @param {SweepRecordOptions} [options] - 录制选项
+   * @returns {Promise<Blob>} WebM 视频
+   */
+  public recordSweep(options: SweepRecordOptions = {}): Promise<Blob> {
+    const amplitude = options.amplitude ?? 300;
+    const duration = options.duration || 4000;
+    const fps = options.fps || 30;
+
+    if (typeof MediaRecorder === "undefined") {
+      return Promise.reject(
+        new Error("[BannerExporter] MediaRecorder is not supported"),
+      );
+    }
+    const mimeType = WEBM_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type),
+    );
+    if (!mimeType) {
+      return Promise.reject(
+        new Error("[BannerExporter] WebM recording is not supported"),
+      );
+    }
+
+    const canvas = document.createElement("canvas");
+    // 先绘制首帧以确定画布尺寸，避免录制开头出现空白帧
+    this.engine.captureFrame(canvas, -amplitude);
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    });
+    const chunks: Blob[] = [];
+
+    return new Promise((resolve, reject) => {
+      let rafId = 0;
+      let startTime = 0;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        for (const track of stream.getTracks()) track.stop();
+        resolve(new Blob(chunks, { type: "video/webm" }));
+      };
+      recorder.onerror = () => {
+        cancelAnimationFrame(rafId);
+        for (const track of stream.getTracks()) track.stop();
+        reject(new Error("[BannerExporter] Recording failed"));
+      };
+
+      // 余弦曲线：t=0 位于最左侧，半程到达最右侧，结束时回到最左侧
+      const tick = (timestamp: DOMHighResTimeStamp) => {
+        if (!startTime) startTime = timestamp;
+        const progress = Math.min((timestamp - startTime) / duration, 1);
+        const moveX = -Math.cos(progress * Math.PI * 2) * amplitude;
+        this.engine.captureFrame(canvas, moveX);
+        if (progress < 1) rafId = requestAnimationFrame(tick);
+        else recorder.stop();
+      };
+
+      recorder.start();
+      rafId = requestAnimationFrame(tick);
+    });
+  }
+
+  /**
+   * 触发浏览器下载
+   */
+  public static download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // 立即回收会让部分浏览器（Safari、旧版 Firefox）取消下载，稍后再释放
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
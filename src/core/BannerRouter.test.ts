@@ -0,0 +1,25 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from "vitest";
+import BannerRouter from "./BannerRouter";
+
+describe("BannerRouter", () => {
+  afterEach(() => {
+    window.location.hash = "";
+  });
+
+  it("reads the variant path from the hash", () => {
+    const router = new BannerRouter();
+    router.replace("2021-08-01-sparkler-night");
+    expect(window.location.hash).toBe("#/2021-08-01-sparkler-night");
+    expect(router.getPath()).toBe("2021-08-01-sparkler-night");
+  });
+
+  it("returns an empty path without a hash", () => {
+    expect(new BannerRouter().getPath()).toBe("");
+  });
+
+  it("falls back to an empty path for malformed escapes", () => {
+    window.location.hash = "#/%E0%A4%A";
+    expect(new BannerRouter().getPath()).toBe("");
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Banner 路由
+ * 将当前选中的变体路径同步到 URL hash（#/2021-08-01-sparkler-night），
+ * 并通过 History API 支持浏览器前进/后退。使用 hash 以兼容 GitHub Pages 静态托管。
+ */
+
+export default class BannerRouter {
+  private onChange?: (path: string) => void;
+  private _boundPopState: () => void;
+
+  constructor() {
+    this._boundPopState = this._handlePopState.bind(this);
+  }
+
+  /**
+   * 开始监听浏览器前进/后退
+   * @param {(path: string) => void} onChange - URL 中的变体路径变化时回调
+   */
+  public listen(onChange: (path: string) => void): void {
+    this.onChange = onChange;
+    window.addEventListener("popstate", this._boundPopState);
+  }
+
+  public destroy(): void {
+    window.removeEventListener("popstate", this._boundPopState);
+    this.onChange = undefined;
+  }
+
+  /**
+   * 读取 URL 中的变体路径，不存在或无法解码（例如手动输入的残缺转义）时返回空字符串
+   */
+  public getPath(): string {
+    const match = window.location.hash.match(/^#\/?(.+)$/);
+    if (!match) return "";
+    try {
+      return decodeURIComponent(match[1]);
+    } catch {
+      return "";
+    }
+  }
+
+  /**
+   * 新增一条历史记录（路径未变化时忽略）
+   */
+  public push(path: string): void {
+    if (path === this.getPath()) return;
+    history.pushState({ path }, "", this._toHash(path));
+  }
+
+  /**
+   * 替换当前历史记录，用于初始化等不应产生新记录的场景
+   */
+  public replace(path: string): void {
+    history.replaceState({ path }, "", this._toHash(path));
+  }
+
+  private _toHash(path: string): string {
+    return `#/${encodeURIComponent(path)}`;
+  }
+
+  private _handlePopState(): void {
+    const path = this.getPath();
+    if (path && this.onChange) this.onChange(path);
+  }
+}
@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatIssues,
+  MANIFEST_VERSION,
+  validateBannerData,
+  validateManifest,
+} from "./BannerSchema";
+
+const PATH = "2021-01-01-test";
+
+function layer(overrides: Record<string, unknown> = {}) {
+  return {
+    tagName: "img",
+    src: "./assets/test/layer.png",
+    width: 1650,
+    height: 160,
+    transform: [1, 0, 0, 1, 0, 0],
+    a: 0.1,
+    ...overrides,
+  };
+}
+
+function particle(overrides: Record<string, unknown> = {}) {
+  return {
+    type: "particle",
+    srcs: ["./assets/test/snow.png"],
+    count: 20,
+    speedRange: [0.5, 1],
+    angleRange: [-10, 10],
+    sizeRange: [4, 8],
+    opacityRange: [0.4, 1],
+    ...overrides,
+  };
+}
+
+// 只比较出错的字段，消息文案可以自由调整
+function fields(rawData: unknown): string[] {
+  return validateBannerData(rawData, PATH).map((issue) => issue.field);
+}
+
+describe("validateBannerData", () => {
+  it("accepts a valid layer array", () => {
+    expect(
+      validateBannerData(
+        [layer(), layer({ tagName: "video", opacity: [0, 1, 1] }), particle()],
+        PATH,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports the layer index and field", () => {
+    const issues = validateBannerData(
+      [layer(), layer({ transform: [1, 0, 0, 1, 0] })],
+      PATH,
+    );
+    expect(issues).toEqual([
+      {
+        path: PATH,
+        layer: 1,
+        field: "transform",
+        message: "expected length 6, got 5",
+      },
+    ]);
+    expect(formatIssues(issues)).toBe(
+      `${PATH} › layer[1] › transform: expected length 6, got 5`,
+    );
+  });
+
+  it("checks opacity ranges", () => {
+    expect(fields([layer({ opacity: [0, 1] })])).toEqual(["opacity"]);
+    expect(fields([layer({ opacity: [0, 1.5, 1] })])).toEqual(["opacity[1]"]);
+  });
+
+  it("checks required and optional layer fields", () => {
+    expect(
+      fields([
+        layer({ src: "", width: 0, a: "0.1", g: null, blur: -1, inertia: 0 }),
+      ]),
+    ).toEqual(["src", "width", "a", "g", "blur", "inertia"]);
+    expect(fields([layer({ tagName: "canvas" })])).toEqual(["tagName"]);
+    expect(fields([layer({ type: "text" })])).toEqual(["type"]);
+    expect(fields(["layer"])).toEqual(["(layer)"]);
+  });
+
+  it("validates keyframes", () => {
+    expect(
+      fields([
+        layer({
+          keyframes: {
+            duration: 1000,
+            loop: "alternate",
+            tracks: {
+              x: [
+                [0, 0],
+                [1, 10, "easeOutQuad"],
+              ],
+            },
+          },
+        }),
+      ]),
+    ).toEqual([]);
+    expect(
+      fields([
+        layer({
+          keyframes: {
+            duration: 0,
+            easing: "bounce",
+            tracks: {
+              x: [
+                [0.5, 0],
+                [0.2, 10],
+              ],
+              skew: [[0, 1]],
+            },
+          },
+        }),
+      ]),
+    ).toEqual([
+      "keyframes.duration",
+      "keyframes.easing",
+      "keyframes.tracks.x[1]",
+      "keyframes.tracks.skew",
+    ]);
+  });
+
+  it("validates particle layers", () => {
+    expect(
+      fields([
+        particle({
+          mode: "float",
+          lifeRange: [2, 4],
+          spawn: { x: [0, 1], y: [0.5, 1] },
+          interaction: { mode: "repel", radius: 80, burst: 10 },
+        }),
+      ]),
+    ).toEqual([]);
+    expect(
+      fields([
+        particle({
+          srcs: [],
+          count: 1.5,
+          speedRange: [2, 1],
+          opacityRange: [0, 2],
+          mode: "swirl",
+          spawn: { x: [0, 1], y: [0, 1.5] },
+          interaction: { mode: "push", burst: -1 },
+        }),
+      ]),
+    ).toEqual([
+      "srcs",
+      "count",
+      "speedRange",
+      "opacityRange",
+      "mode",
+      "interaction.mode",
+      "interaction.burst",
+      "spawn.y",
+    ]);
+  });
+
+  it("validates sprite layers", () => {
+    const sprite = { frames: 8, frameWidth: 120, frameHeight: 90, columns: 4 };
+    expect(fields([layer({ type: "sprite", sprite })])).toEqual([]);
+    expect(fields([layer({ type: "sprite" })])).toEqual(["sprite"]);
+    expect(
+      fields([
+        layer({
+          type: "sprite",
+          sprite: {
+            frames: 0,
+            frameWidth: 120,
+            frameHeight: -1,
+            columns: 2.5,
+            fps: 0,
+            loop: "alternate",
+            drive: "scroll",
+          },
+        }),
+      ]),
+    ).toEqual([
+      "sprite.frames",
+      "sprite.frameHeight",
+      "sprite.columns",
+      "sprite.fps",
+      "sprite.loop",
+      "sprite.drive",
+    ]);
+  });
+
+  it("validates the object form with physics and framing", () => {
+    expect(
+      fields({
+        physics: {
+          spring: { stiffness: 200 },
+          easing: "easeOutBack",
+          duration: 600,
+        },
+        framing: { focus: [0.7, 0.5], safeArea: [600, 140] },
+        layers: [layer({ inertia: 2 })],
+      }),
+    ).toEqual([]);
+    expect(fields({ physics: { spring: false }, layers: [] })).toEqual([]);
+    expect(
+      fields({
+        physics: { spring: { damping: 0 }, easing: "snap", duration: -1 },
+        framing: { focus: [1.2, 0.5], safeArea: [0, 140] },
+        layers: [],
+      }),
+    ).toEqual([
+      "physics.spring.damping",
+      "physics.easing",
+      "physics.duration",
+      "framing.focus[0]",
+      "framing.safeArea[0]",
+    ]);
+    expect(fields({ layers: {} })).toEqual(["layers"]);
+  });
+
+  it("validates the simple-video format", () => {
+    expect(
+      fields({
+        mode: "simple-video",
+        src: "./a.mp4",
+        framing: { focus: [0, 0] },
+      }),
+    ).toEqual([]);
+    expect(fields({ mode: "video", src: "" })).toEqual(["mode", "src"]);
+  });
+
+  it("rejects other top-level values", () => {
+    expect(fields("[]")).toEqual(["(root)"]);
+  });
+});
+
+describe("validateManifest", () => {
+  const manifest = (entries: unknown) => ({
+    version: MANIFEST_VERSION,
+    entries,
+  });
+
+  it("accepts a valid manifest", () => {
+    expect(
+      validateManifest(
+        manifest([
+          {
+            date: "2021-01-01",
+            variants: [
+              {
+                name: "冬日公园",
+                path: "2021-01-01-winter",
+                tags: ["winter"],
+                credits: "",
+                thumbnail: "assets/2021-01-01-winter/thumb.webp",
+              },
+            ],
+          },
+        ]),
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports entry and variant problems by path", () => {
+    const issues = validateManifest(
+      manifest([
+        { date: "2021-1-1", variants: [] },
+        {
+          date: "2021-01-02",
+          variants: [{ name: "", tags: "winter", thumbnail: "" }, "x"],
+        },
+      ]),
+    );
+    expect(issues.map((issue) => issue.field)).toEqual([
+      "entries[0].date",
+      "entries[0].variants",
+      "entries[1].variants[0].name",
+      "entries[1].variants[0].tags",
+      "entries[1].variants[0].thumbnail",
+      "entries[1].variants[1]",
+    ]);
+    expect(issues.every((issue) => issue.path === "manifest.json")).toBe(true);
+  });
+
+  it("checks the version and the entries array", () => {
+    expect(
+      validateManifest({ version: 2, entries: null }).map((i) => i.field),
+    ).toEqual(["version", "entries"]);
+    expect(validateManifest([]).map((i) => i.field)).toEqual(["(root)"]);
+  });
+});
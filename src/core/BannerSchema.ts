@@ -0,0 +1,608 @@
+/**
+ * Banner 数据校验器
+ * 在加载阶段对 data.json 做运行时结构校验，一次性收集所有问题，
+ * 避免错误数据拖到 BannerEngine 的动画帧里才抛出。
+ */
+
+import { EASINGS, isEasingName } from "./MotionPhysics";
+
+export interface ValidationIssue {
+  path: string; // 变体目录名，例如 2021-01-01-winter
+  layer: number | null; // 图层索引，顶层结构问题时为 null
+  field: string; // 出错字段，例如 transform、opacity[1]
+  message: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * 将问题列表格式化为便于阅读的多行报告
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => {
+      const where =
+        issue.layer === null
+          ? issue.path
+          : `${issue.path} › layer[${issue.layer}]`;
+      return `${where} › ${issue.field}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * 校验单个变体的原始 data.json 内容
+ * @param {unknown} rawData - 解析后的 JSON
+ * @param {string} path - 变体目录名，用于定位问题
+ * @returns {ValidationIssue[]} 空数组表示校验通过
+ */
+export function validateBannerData(
+  rawData: unknown,
+  path: string,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (layer: number | null, field: string, message: string) => {
+    issues.push({ path, layer, field, message });
+  };
+
+  let layers: unknown = rawData;
+  if (isRecord(rawData) && rawData.layers !== undefined) {
+    // 对象格式：{ "physics": {...}, "framing": {...}, "layers": [...] }
+    if (rawData.physics !== undefined) {
+      validatePhysics(rawData.physics, (field, message) =>
+        report(null, field, message),
+      );
+    }
+    if (rawData.framing !== undefined) {
+      validateFraming(rawData.framing, (field, message) =>
+        report(null, field, message),
+      );
+    }
+    layers = rawData.layers;
+    if (!Array.isArray(layers)) {
+      report(null, "layers", "expected a layer array");
+      return issues;
+    }
+  } else if (isRecord(rawData)) {
+    if (rawData.mode !== "simple-video") {
+      report(
+        null,
+        "mode",
+        `expected "simple-video", got ${json(rawData.mode)}`,
+      );
+    }
+    if (!isNonEmptyString(rawData.src)) {
+      report(null, "src", "expected a non-empty string");
+    }
+    if (rawData.framing !== undefined) {
+      validateFraming(rawData.framing, (field, message) =>
+        report(null, field, message),
+      );
+    }
+    return issues;
+  }
+
+  if (!Array.isArray(layers)) {
+    report(null, "(root)", "expected a layer array or a simple-video object");
+    return issues;
+  }
+
+  layers.forEach((item, index) => {
+    if (!isRecord(item)) {
+      report(index, "(layer)", "expected an object");
+      return;
+    }
+    if (item.type === "particle") {
+      validateParticleLayer(item, (field, message) =>
+        report(index, field, message),
+      );
+    } else {
+      validateParallaxLayer(item, (field, message) =>
+        report(index, field, message),
+      );
+    }
+  });
+
+  return issues;
+}
+
+// ─────────────────────── 图层规则 ───────────────────────
+
+type Reporter = (field: string, message: string) => void;
+
+function json(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+function checkNumberArray(
+  value: unknown,
+  field: string,
+  length: number,
+  report: Reporter,
+): value is number[] {
+  if (!Array.isArray(value)) {
+    report(field, `expected an array of ${length} numbers`);
+    return false;
+  }
+  if (value.length !== length) {
+    report(field, `expected length ${length}, got ${value.length}`);
+    return false;
+  }
+  let valid = true;
+  value.forEach((v, i) => {
+    if (!isFiniteNumber(v)) {
+      report(`${field}[${i}]`, `expected a number, got ${json(v)}`);
+      valid = false;
+    }
+  });
+  return valid;
+}
+
+function checkOptionalNumber(
+  item: RawRecord,
+  field: string,
+  report: Reporter,
+): void {
+  if (item[field] !== undefined && !isFiniteNumber(item[field])) {
+    report(field, `expected a number, got ${json(item[field])}`);
+  }
+}
+
+function validateParallaxLayer(item: RawRecord, report: Reporter): void {
+  if (
+    item.tagName !== undefined &&
+    item.tagName !== "img" &&
+    item.tagName !== "video"
+  ) {
+    report("tagName", `expected "img" or "video", got ${json(item.tagName)}`);
+  }
+  if (!isNonEmptyString(item.src)) {
+    report("src", "expected a non-empty string");
+  }
+  if (!isFiniteNumber(item.width) || item.width <= 0) {
+    report("width", `expected a positive number, got ${json(item.width)}`);
+  }
+  // 部分早期数据未记录 height，此时沿用素材自身高度
+  if (
+    item.height !== undefined &&
+    (!isFiniteNumber(item.height) || item.height <= 0)
+  ) {
+    report("height", `expected a positive number, got ${json(item.height)}`);
+  }
+
+  checkNumberArray(item.transform, "transform", 6, report);
+
+  if (item.opacity !== undefined) {
+    if (checkNumberArray(item.opacity, "opacity", 3, report)) {
+      item.opacity.forEach((v, i) => {
+        if (v < 0 || v > 1) report(`opacity[${i}]`, `${v} is outside [0, 1]`);
+      });
+    }
+  }
+
+  if (!isFiniteNumber(item.a)) {
+    report("a", `expected a number, got ${json(item.a)}`);
+  }
+  for (const field of ["g", "f", "deg", "ay", "gy", "fy", "degy"]) {
+    checkOptionalNumber(item, field, report);
+  }
+  checkNonNegative(item, "blur", report);
+  checkPositive(item, "inertia", report);
+  if (item.keyframes !== undefined) {
+    validateKeyframes(item.keyframes, report);
+  }
+  if (item.type === "sprite") {
+    validateSprite(item.sprite, report);
+  } else if (item.type !== undefined) {
+    report(
+      "type",
+      `expected "particle", "sprite" or none, got ${json(item.type)}`,
+    );
+  }
+}
+
+function checkPositiveInteger(
+  item: RawRecord,
+  field: string,
+  report: Reporter,
+): void {
+  if (!Number.isInteger(item[field]) || (item[field] as number) <= 0) {
+    report(field, `expected a positive integer, got ${json(item[field])}`);
+  }
+}
+
+function validateSprite(value: unknown, layerReport: Reporter): void {
+  if (!isRecord(value)) {
+    layerReport("sprite", "expected an object");
+    return;
+  }
+  const report: Reporter = (field, message) =>
+    layerReport(`sprite.${field}`, message);
+  checkPositiveInteger(value, "frames", report);
+  for (const field of ["frameWidth", "frameHeight"]) {
+    if (!isFiniteNumber(value[field]) || value[field] <= 0) {
+      report(field, `expected a positive number, got ${json(value[field])}`);
+    }
+  }
+  if (value.columns !== undefined) {
+    checkPositiveInteger(value, "columns", report);
+  }
+  checkPositive(value, "fps", report);
+  if (
+    value.loop !== undefined &&
+    typeof value.loop !== "boolean" &&
+    value.loop !== "pingpong"
+  ) {
+    report("loop", `expected a boolean or "pingpong", got ${json(value.loop)}`);
+  }
+  if (
+    value.drive !== undefined &&
+    value.drive !== "time" &&
+    value.drive !== "pointer"
+  ) {
+    report("drive", `expected "time" or "pointer", got ${json(value.drive)}`);
+  }
+}
+
+const KEYFRAME_PROPERTIES = ["x", "y", "rotate", "scale", "opacity"];
+
+function checkEasing(value: unknown, field: string, report: Reporter): void {
+  if (value !== undefined && !isEasingName(value)) {
+    report(
+      field,
+      `expected one of ${Object.keys(EASINGS).join(", ")}, got ${json(value)}`,
+    );
+  }
+}
+
+function validateKeyframes(value: unknown, layerReport: Reporter): void {
+  if (!isRecord(value)) {
+    layerReport("keyframes", "expected an object");
+    return;
+  }
+  const report: Reporter = (field, message) =>
+    layerReport(`keyframes.${field}`, message);
+  if (!isFiniteNumber(value.duration) || value.duration <= 0) {
+    report(
+      "duration",
+      `expected a positive number, got ${json(value.duration)}`,
+    );
+  }
+  checkNonNegative(value, "delay", report);
+  if (
+    value.loop !== undefined &&
+    typeof value.loop !== "boolean" &&
+    value.loop !== "alternate"
+  ) {
+    report(
+      "loop",
+      `expected a boolean or "alternate", got ${json(value.loop)}`,
+    );
+  }
+  checkEasing(value.easing, "easing", report);
+
+  if (!isRecord(value.tracks)) {
+    report("tracks", "expected an object");
+    return;
+  }
+  for (const [property, track] of Object.entries(value.tracks)) {
+    const at = `tracks.${property}`;
+    if (!KEYFRAME_PROPERTIES.includes(property)) {
+      report(at, `expected one of ${KEYFRAME_PROPERTIES.join(", ")}`);
+      continue;
+    }
+    if (!Array.isArray(track) || track.length === 0) {
+      report(at, "expected a non-empty array of [offset, value] keyframes");
+      continue;
+    }
+    let previous = 0;
+    track.forEach((keyframe, i) => {
+      const [offset, v, easing] = Array.isArray(keyframe) ? keyframe : [];
+      if (
+        !Array.isArray(keyframe) ||
+        keyframe.length < 2 ||
+        !isFiniteNumber(offset) ||
+        !isFiniteNumber(v)
+      ) {
+        report(
+          `${at}[${i}]`,
+          "expected [offset, value] or [offset, value, easing]",
+        );
+        return;
+      }
+      if (offset < previous || offset > 1) {
+        report(
+          `${at}[${i}]`,
+          `offset ${offset} must be ascending within [0, 1]`,
+        );
+      }
+      previous = offset;
+      checkEasing(easing, `${at}[${i}][2]`, report);
+    });
+  }
+}
+
+function checkPositive(item: RawRecord, field: string, report: Reporter): void {
+  checkOptionalNumber(item, field, report);
+  if (isFiniteNumber(item[field]) && item[field] <= 0) {
+    report(field, `expected a positive number, got ${item[field]}`);
+  }
+}
+
+function checkNonNegative(
+  item: RawRecord,
+  field: string,
+  report: Reporter,
+): void {
+  checkOptionalNumber(item, field, report);
+  if (isFiniteNumber(item[field]) && item[field] < 0) {
+    report(field, `expected a non-negative number, got ${item[field]}`);
+  }
+}
+
+function checkRange(
+  item: RawRecord,
+  field: string,
+  report: Reporter,
+  bounds: { min?: number; max?: number } = {},
+): void {
+  if (!checkNumberArray(item[field], field, 2, report)) return;
+  const [lo, hi] = item[field] as [number, number];
+  if (lo > hi) {
+    report(field, `min ${lo} is greater than max ${hi}`);
+  }
+  if (bounds.min !== undefined && lo < bounds.min) {
+    report(field, `${lo} is below the minimum ${bounds.min}`);
+  }
+  if (bounds.max !== undefined && hi > bounds.max) {
+    report(field, `${hi} is above the maximum ${bounds.max}`);
+  }
+}
+
+const PARTICLE_MODES = ["fall", "rise", "float"] as const;
+
+function validateParticleLayer(item: RawRecord, report: Reporter): void {
+  if (
+    !Array.isArray(item.srcs) ||
+    item.srcs.length === 0 ||
+    !item.srcs.every(isNonEmptyString)
+  ) {
+    report("srcs", "expected a non-empty array of strings");
+  }
+  if (
+    !isFiniteNumber(item.count) ||
+    !Number.isInteger(item.count) ||
+    item.count < 0
+  ) {
+    report("count", `expected a non-negative integer, got ${json(item.count)}`);
+  }
+  checkRange(item, "speedRange", report, { min: 0 });
+  checkRange(item, "angleRange", report);
+  checkRange(item, "sizeRange", report, { min: 0 });
+  checkRange(item, "opacityRange", report, { min: 0, max: 1 });
+
+  if (
+    item.mode !== undefined &&
+    !PARTICLE_MODES.includes(item.mode as (typeof PARTICLE_MODES)[number])
+  ) {
+    report(
+      "mode",
+      `expected one of ${PARTICLE_MODES.map((m) => `"${m}"`).join(", ")}, got ${json(item.mode)}`,
+    );
+  }
+  for (const field of ["wander", "fade"]) {
+    checkNonNegative(item, field, report);
+  }
+  checkPositive(item, "inertia", report);
+  for (const field of ["wind", "a", "g", "ay", "gy"]) {
+    checkOptionalNumber(item, field, report);
+  }
+  if (item.lifeRange !== undefined) {
+    checkRange(item, "lifeRange", report, { min: 0 });
+  }
+  if (item.interaction !== undefined) {
+    validateParticleInteraction(item.interaction, report);
+  }
+  if (item.spawn !== undefined) {
+    if (isRecord(item.spawn)) {
+      const { spawn } = item;
+      for (const axis of ["x", "y"]) {
+        checkRange(
+          spawn,
+          axis,
+          (field, message) => report(`spawn.${field}`, message),
+          { min: 0, max: 1 },
+        );
+      }
+    } else {
+      report("spawn", "expected an object with x and y ranges");
+    }
+  }
+}
+
+function validateParticleInteraction(value: unknown, report: Reporter): void {
+  if (!isRecord(value)) {
+    report("interaction", "expected an object");
+    return;
+  }
+  if (
+    value.mode !== undefined &&
+    value.mode !== "repel" &&
+    value.mode !== "attract"
+  ) {
+    report(
+      "interaction.mode",
+      `expected "repel" or "attract", got ${json(value.mode)}`,
+    );
+  }
+  for (const field of ["radius", "strength", "gust"]) {
+    const v = value[field];
+    if (v !== undefined && (!isFiniteNumber(v) || v < 0)) {
+      report(
+        `interaction.${field}`,
+        `expected a non-negative number, got ${json(v)}`,
+      );
+    }
+  }
+  const { burst } = value;
+  if (
+    burst !== undefined &&
+    (!isFiniteNumber(burst) || !Number.isInteger(burst) || burst < 0)
+  ) {
+    report(
+      "interaction.burst",
+      `expected a non-negative integer, got ${json(burst)}`,
+    );
+  }
+}
+
+// ─────────────────────── Banner 级规则 ───────────────────────
+
+function validatePhysics(value: unknown, report: Reporter): void {
+  if (!isRecord(value)) {
+    report("physics", "expected an object");
+    return;
+  }
+  const { spring, easing } = value;
+  if (spring !== undefined && spring !== false) {
+    if (isRecord(spring)) {
+      for (const field of ["stiffness", "damping", "mass"]) {
+        const v = spring[field];
+        if (v !== undefined && (!isFiniteNumber(v) || v <= 0)) {
+          report(
+            `physics.spring.${field}`,
+            `expected a positive number, got ${json(v)}`,
+          );
+        }
+      }
+    } else {
+      report("physics.spring", "expected an object or false");
+    }
+  }
+  checkEasing(easing, "physics.easing", report);
+  checkNonNegative(value, "duration", (field, message) =>
+    report(`physics.${field}`, message),
+  );
+}
+
+function validateFraming(value: unknown, report: Reporter): void {
+  if (!isRecord(value)) {
+    report("framing", "expected an object");
+    return;
+  }
+  const prefixed: Reporter = (field, message) =>
+    report(`framing.${field}`, message);
+  if (
+    value.focus !== undefined &&
+    checkNumberArray(value.focus, "focus", 2, prefixed)
+  ) {
+    value.focus.forEach((v, i) => {
+      if (v < 0 || v > 1) prefixed(`focus[${i}]`, `${v} is outside [0, 1]`);
+    });
+  }
+  if (
+    value.safeArea !== undefined &&
+    checkNumberArray(value.safeArea, "safeArea", 2, prefixed)
+  ) {
+    value.safeArea.forEach((v, i) => {
+      if (v <= 0) {
+        prefixed(`safeArea[${i}]`, `expected a positive number, got ${v}`);
+      }
+    });
+  }
+}
+
+// ─────────────────────── 清单规则 ───────────────────────
+
+export const MANIFEST_VERSION = 1;
+
+/**
+ * 校验 manifest.json 的结构，规则与 public/assets/manifest.schema.json 保持一致
+ * @param {unknown} rawManifest - 解析后的 JSON
+ * @returns {ValidationIssue[]} 空数组表示校验通过
+ */
+export function validateManifest(rawManifest: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (field: string, message: string) => {
+    issues.push({ path: "manifest.json", layer: null, field, message });
+  };
+
+  if (!isRecord(rawManifest)) {
+    report("(root)", "expected an object");
+    return issues;
+  }
+  if (rawManifest.version !== MANIFEST_VERSION) {
+    report(
+      "version",
+      `expected ${MANIFEST_VERSION}, got ${json(rawManifest.version)}`,
+    );
+  }
+  if (!Array.isArray(rawManifest.entries)) {
+    report("entries", "expected an array");
+    return issues;
+  }
+
+  rawManifest.entries.forEach((entry, i) => {
+    const at = `entries[${i}]`;
+    if (!isRecord(entry)) {
+      report(at, "expected an object");
+      return;
+    }
+    if (
+      typeof entry.date !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)
+    ) {
+      report(`${at}.date`, `expected YYYY-MM-DD, got ${json(entry.date)}`);
+    }
+    if (!Array.isArray(entry.variants) || entry.variants.length === 0) {
+      report(`${at}.variants`, "expected a non-empty array");
+      return;
+    }
+    entry.variants.forEach((variant, j) => {
+      const vat = `${at}.variants[${j}]`;
+      if (!isRecord(variant)) {
+        report(vat, "expected an object");
+        return;
+      }
+      if (!isNonEmptyString(variant.name)) {
+        report(`${vat}.name`, "expected a non-empty string");
+      }
+      if (variant.path !== undefined && !isNonEmptyString(variant.path)) {
+        report(`${vat}.path`, "expected a non-empty string");
+      }
+      if (
+        variant.tags !== undefined &&
+        (!Array.isArray(variant.tags) ||
+          !variant.tags.every((t) => typeof t === "string"))
+      ) {
+        report(`${vat}.tags`, "expected an array of strings");
+      }
+      if (
+        variant.credits !== undefined &&
+        typeof variant.credits !== "string"
+      ) {
+        report(`${vat}.credits`, "expected a string");
+      }
+      if (
+        variant.thumbnail !== undefined &&
+        !isNonEmptyString(variant.thumbnail)
+      ) {
+        report(`${vat}.thumbnail`, "expected a non-empty string");
+      }
+    });
+  });
+
+  return issues;
+}
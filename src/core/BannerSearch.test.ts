@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import type { LoadedBannerData, LoadedVariant } from "./BannerDataLoader";
+import type { StandardBannerData } from "./BannerEngine";
+import {
+  collectTags,
+  filterBanners,
+  filterEntries,
+  getInitials,
+  getLayerKinds,
+  isEmptyQuery,
+  matchesText,
+} from "./BannerSearch";
+
+const PARALLAX_WITH_PARTICLES: StandardBannerData = {
+  type: "parallax",
+  payload: [
+    { type: "image", src: "a.png", width: 100, transform: [1, 0, 0, 1, 0, 0] },
+    { type: "particle", src: "b.png", count: 10 },
+  ],
+} as StandardBannerData;
+
+const PARALLAX_WITH_VIDEO: StandardBannerData = {
+  type: "parallax",
+  payload: [
+    { type: "video", src: "a.webm", width: 100, transform: [1, 0, 0, 1, 0, 0] },
+  ],
+} as StandardBannerData;
+
+const SIMPLE_VIDEO: StandardBannerData = {
+  type: "simple-video",
+  payload: { src: "a.webm" },
+} as StandardBannerData;
+
+function variant(
+  name: string,
+  tags: string[],
+  data: StandardBannerData,
+): LoadedVariant {
+  return { name, path: name, tags, data };
+}
+
+const ENTRIES: LoadedBannerData[] = [
+  {
+    date: "2021-04-12",
+    variants: [variant("十里桃花 - 河畔春游", ["spring"], PARALLAX_WITH_VIDEO)],
+  },
+  {
+    date: "2021-08-01",
+    variants: [
+      variant("雷雨楼间 - 不眠之夜", ["summer", "night"], SIMPLE_VIDEO),
+      variant(
+        "凉风夏夜 - 花火照颜",
+        ["summer", "night"],
+        PARALLAX_WITH_PARTICLES,
+      ),
+    ],
+  },
+];
+
+describe("getInitials", () => {
+  it("maps Chinese characters to pinyin initials", () => {
+    expect(getInitials("雷雨楼间")).toBe("lylj");
+    expect(getInitials("十里桃花")).toBe("slth");
+    expect(getInitials("凉风夏夜")).toBe("lfxy");
+  });
+
+  it("keeps other characters lowercased", () => {
+    expect(getInitials("2233娘")).toBe("2233n");
+    expect(getInitials("Bilibili")).toBe("bilibili");
+  });
+});
+
+describe("matchesText", () => {
+  it("matches substrings case-insensitively", () => {
+    expect(matchesText("十里桃花 - 河畔春游", "桃花")).toBe(true);
+    expect(matchesText("Bilibili World", "world")).toBe(true);
+    expect(matchesText("十里桃花", "雷雨")).toBe(false);
+  });
+
+  it("matches pinyin initials across separators", () => {
+    expect(matchesText("十里桃花 - 河畔春游", "slth")).toBe(true);
+    expect(matchesText("十里桃花 - 河畔春游", "thhp")).toBe(true);
+    expect(matchesText("十里桃花 - 河畔春游", "TH HP")).toBe(true);
+    expect(matchesText("十里桃花 - 河畔春游", "xyz")).toBe(false);
+  });
+
+  it("treats a blank keyword as a match", () => {
+    expect(matchesText("十里桃花", "  ")).toBe(true);
+  });
+});
+
+describe("getLayerKinds", () => {
+  it("detects video and particle layers", () => {
+    expect(getLayerKinds(PARALLAX_WITH_VIDEO)).toEqual(["video"]);
+    expect(getLayerKinds(PARALLAX_WITH_PARTICLES)).toEqual(["particle"]);
+    expect(getLayerKinds(SIMPLE_VIDEO)).toEqual(["simple-video"]);
+  });
+});
+
+describe("filterBanners", () => {
+  it("keeps only matching variants and drops empty entries", () => {
+    const result = filterBanners(ENTRIES, { text: "lfxy" });
+    expect(result).toHaveLength(1);
+    expect(result[0].date).toBe("2021-08-01");
+    expect(result[0].variants.map((v) => v.name)).toEqual([
+      "凉风夏夜 - 花火照颜",
+    ]);
+  });
+
+  it("requires every selected tag", () => {
+    const result = filterBanners(ENTRIES, { tags: ["summer", "night"] });
+    expect(result.flatMap((e) => e.variants)).toHaveLength(2);
+    expect(filterBanners(ENTRIES, { tags: ["spring", "night"] })).toEqual([]);
+  });
+
+  it("accepts any of the selected layer kinds", () => {
+    const result = filterBanners(ENTRIES, { kinds: ["video", "simple-video"] });
+    expect(result.flatMap((e) => e.variants.map((v) => v.path))).toEqual([
+      "十里桃花 - 河畔春游",
+      "雷雨楼间 - 不眠之夜",
+    ]);
+  });
+
+  it("combines conditions", () => {
+    const result = filterBanners(ENTRIES, {
+      text: "花",
+      tags: ["summer"],
+      kinds: ["particle"],
+    });
+    expect(result.flatMap((e) => e.variants)).toHaveLength(1);
+  });
+});
+
+describe("filterEntries", () => {
+  // 清单条目不含变体数据
+  const MANIFEST = ENTRIES.map((entry) => ({
+    date: entry.date,
+    variants: entry.variants.map(({ data: _data, ...info }) => info),
+  }));
+
+  it("matches names and tags against the manifest alone", () => {
+    const result = filterEntries(MANIFEST, { text: "花", tags: ["summer"] });
+    expect(result.flatMap((e) => e.variants.map((v) => v.name))).toEqual([
+      "凉风夏夜 - 花火照颜",
+    ]);
+  });
+
+  it("ignores layer kinds, which need variant data", () => {
+    expect(filterEntries(MANIFEST, { kinds: ["particle"] })).toEqual(MANIFEST);
+  });
+});
+
+describe("collectTags / isEmptyQuery", () => {
+  it("collects unique tags in order of appearance", () => {
+    expect(collectTags(ENTRIES)).toEqual(["spring", "summer", "night"]);
+  });
+
+  it("detects empty queries", () => {
+    expect(isEmptyQuery({})).toBe(true);
+    expect(isEmptyQuery({ text: " ", tags: [], kinds: [] })).toBe(true);
+    expect(isEmptyQuery({ tags: ["spring"] })).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Banner 搜索与筛选
+ * 不依赖 DOM 的纯函数：名称（支持拼音首字母）与标签只需清单即可过滤（filterEntries），
+ * 图层类型需要变体数据，只对通过前一步的候选变体加载后再过滤（filterBanners）。
+ * 结果保持按日期分组的结构，可直接交给 BannerTimeLine.render 渲染。
+ */
+
+import type {
+  BannerEntry,
+  LoadedBannerData,
+  VariantInfo,
+} from "./BannerDataLoader";
+import type { StandardBannerData } from "./BannerEngine";
+
+export type LayerKind = "video" | "particle" | "simple-video";
+
+export interface SearchQuery {
+  text?: string; // 名称关键字，支持拼音首字母，如 "slth" 匹配 "十里桃花"
+  tags?: string[]; // 需同时具备的标签
+  kinds?: LayerKind[]; // 需包含其中任意一种图层类型
+}
+
+// 每个拼音首字母对应的第一个汉字（按拼音排序），i/u/v 不作为声母开头
+const INITIAL_BOUNDARIES = "阿八嚓哒妸发旮哈讥咔垃妈拏噢妑七呥撒他穵夕丫帀";
+const INITIAL_LETTERS = "abcdefghjklmnopqrstwxyz";
+const CJK_PATTERN = /[一-鿿]/;
+// 首字母匹配时忽略的空白与标点，例如 "仲秋流金 - 层林尽染"
+const SEPARATOR_PATTERN = /[\s\p{P}\p{S}]/gu;
+
+let collator: Intl.Collator | null = null;
+
+function getInitial(char: string): string {
+  if (!CJK_PATTERN.test(char)) return char.toLowerCase();
+  collator ??= new Intl.Collator("zh-Hans-CN-u-co-pinyin");
+  let initial = "";
+  for (let i = 0; i < INITIAL_BOUNDARIES.length; i++) {
+    if (collator.compare(char, INITIAL_BOUNDARIES[i]) < 0) break;
+    initial = INITIAL_LETTERS[i];
+  }
+  return initial;
+}
+
+/**
+ * 获取文本的拼音首字母串，非汉字字符按小写原样保留
+ * @param {string} text - 原始文本
+ * @returns {string} 例如 "雷雨楼间" -> "lylj"
+ */
+export function getInitials(text: string): string {
+  return Array.from(text, getInitial).join("");
+}
+
+/**
+ * 名称是否匹配关键字：忽略大小写的子串匹配，或拼音首字母匹配
+ */
+export function matchesText(name: string, text: string): boolean {
+  const keyword = text.trim().toLowerCase();
+  if (!keyword) return true;
+  if (name.toLowerCase().includes(keyword)) return true;
+
+  const compactKeyword = keyword.replace(SEPARATOR_PATTERN, "");
+  if (!compactKeyword) return false;
+  return getInitials(name.replace(SEPARATOR_PATTERN, "")).includes(
+    compactKeyword,
+  );
+}
+
+/**
+ * 统计变体数据中出现的图层类型
+ */
+export function getLayerKinds(data: StandardBannerData): LayerKind[] {
+  if (data.type === "simple-video") return ["simple-video"];
+  const kinds = new Set<LayerKind>();
+  for (const item of Array.isArray(data.payload) ? data.payload : []) {
+    if (item.type === "video" || item.type === "particle") kinds.add(item.type);
+  }
+  return [...kinds];
+}
+
+/**
+ * 汇总所有变体的标签，按首次出现的顺序去重
+ */
+export function collectTags(entries: BannerEntry[]): string[] {
+  return [
+    ...new Set(
+      entries.flatMap((entry) => entry.variants.flatMap((v) => v.tags)),
+    ),
+  ];
+}
+
+// 按日期分组的变体，清单条目与已加载数据共用
+type Grouped<T extends VariantInfo> = Array<{ date: string; variants: T[] }>;
+
+function filterVariants<T extends VariantInfo>(
+  entries: Grouped<T>,
+  predicate: (variant: T) => boolean,
+): Grouped<T> {
+  return entries
+    .map((entry) => ({
+      date: entry.date,
+      variants: entry.variants.filter(predicate),
+    }))
+    .filter((entry) => entry.variants.length > 0);
+}
+
+/**
+ * 仅按清单中的名称与标签过滤，不需要加载变体数据
+ * @param {BannerEntry[]} entries - 清单条目
+ * @param {SearchQuery} query - 查询条件，kinds 在此忽略
+ * @returns {BannerEntry[]}
+ */
+export function filterEntries<T extends VariantInfo>(
+  entries: Grouped<T>,
+  query: SearchQuery,
+): Grouped<T> {
+  const { text = "", tags = [] } = query;
+  return filterVariants(
+    entries,
+    (variant) =>
+      matchesText(variant.name, text) &&
+      tags.every((tag) => variant.tags.includes(tag)),
+  );
+}
+
+/**
+ * 按查询条件过滤已加载的变体，没有匹配变体的日期条目整体移除
+ * @param {LoadedBannerData[]} entries - 已加载的数据，通常只包含 filterEntries 筛出的候选
+ * @param {SearchQuery} query - 查询条件，各条件之间为“且”关系
+ * @returns {LoadedBannerData[]}
+ */
+export function filterBanners(
+  entries: LoadedBannerData[],
+  query: SearchQuery,
+): LoadedBannerData[] {
+  const { kinds = [] } = query;
+  return filterVariants(filterEntries(entries, query), (variant) => {
+    if (kinds.length === 0) return true;
+    const variantKinds = getLayerKinds(variant.data);
+    return kinds.some((kind) => variantKinds.includes(kind));
+  });
+}
+
+/**
+ * 查询条件是否为空（此时应回到按年份浏览）
+ */
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return !query.text?.trim() && !query.tags?.length && !query.kinds?.length;
+}
@@ -0,0 +1,191 @@
+/**
+ * 展示模式（轮播）
+ * 按时间顺序或随机顺序遍历清单中的所有变体，每个变体停留固定时长；
+ * 可选地模拟指针左右扫动，让视差效果在无人操作时也能被看到。
+ * 引擎暂停（页面隐藏、滚出视口或手动暂停）期间轮播计时与扫动一并挂起，恢复后从中断处继续。
+ */
+
+import type { BannerEntry } from "./BannerDataLoader";
+import type BannerEngine from "./BannerEngine";
+
+export type ShowcaseOrder = "chronological" | "shuffle";
+
+export interface BannerShowcaseOptions {
+  engine: BannerEngine;
+  entries: BannerEntry[];
+  onSelect: (path: string) => void; // 切换到某个变体时回调，由调用方同步 UI
+  order?: ShowcaseOrder;
+  years?: string[]; // 仅展示这些年份，留空表示全部
+  duration?: number; // 每个变体停留时长（ms），默认 8000
+  sweep?: boolean; // 是否模拟指针扫动，默认 true
+  sweepAmplitude?: number; // 扫动幅度（px），默认 300
+  sweepPeriod?: number; // 一次完整往返的时长（ms），默认 6000
+}
+
+export default class BannerShowcase {
+  private engine: BannerEngine;
+  private onSelect: (path: string) => void;
+  private order: ShowcaseOrder;
+  private duration: number;
+  private sweep: boolean;
+  private sweepAmplitude: number;
+  private sweepPeriod: number;
+
+  private playlist: string[];
+  private index: number = -1;
+  private timerId: number = 0;
+  private timerStart: number = 0; // 当前变体计时开始的时间
+  private remaining: number = 0; // 当前变体剩余的停留时长（ms）
+  private sweepRafId: number = 0;
+  private sweepStart: number = 0;
+  private sweepElapsed: number = 0; // 挂起前已扫动的时长，恢复后接着相位继续
+  private running: boolean = false;
+  private suspended: boolean = false;
+  private _unsubscribePause: (() => void) | null = null;
+
+  constructor(options: BannerShowcaseOptions) {
+    this.engine = options.engine;
+    this.onSelect = options.onSelect;
+    this.order = options.order || "chronological";
+    this.duration = options.duration || 8000;
+    this.sweep = options.sweep ?? true;
+    this.sweepAmplitude = options.sweepAmplitude ?? 300;
+    this.sweepPeriod = options.sweepPeriod || 6000;
+    this.playlist = BannerShowcase.buildPlaylist(
+      options.entries,
+      options.years,
+    );
+  }
+
+  /**
+   * 将清单展开为按日期升序的变体路径列表
+   */
+  public static buildPlaylist(
+    entries: BannerEntry[],
+    years?: string[],
+  ): string[] {
+    return [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .filter(
+        (entry) =>
+          !years ||
+          years.length === 0 ||
+          years.includes(entry.date.split("-")[0]),
+      )
+      .flatMap((entry) => entry.variants.map((v) => v.path));
+  }
+
+  /**
+   * 开始轮播
+   * @param {string} [fromPath] - 从指定变体开始，默认从列表开头
+   */
+  public start(fromPath?: string): void {
+    if (this.running || this.playlist.length === 0) return;
+    this.running = true;
+    if (this.order === "shuffle") this._shuffle();
+
+    this.suspended = this.engine.isPaused();
+    this._unsubscribePause = this.engine.on("pauseChange", ({ paused }) => {
+      if (paused) this._suspend();
+      else this._resume();
+    });
+
+    const startIndex = fromPath ? this.playlist.indexOf(fromPath) : -1;
+    this.index = startIndex === -1 ? 0 : startIndex;
+    this.sweepElapsed = 0;
+    this._show();
+    if (!this.suspended) this._startSweep();
+  }
+
+  public stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.suspended = false;
+    this._unsubscribePause?.();
+    this._unsubscribePause = null;
+    window.clearTimeout(this.timerId);
+    this.timerId = 0;
+    if (this.sweepRafId) {
+      cancelAnimationFrame(this.sweepRafId);
+      this.sweepRafId = 0;
+      this.engine.releasePointer();
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public next(): void {
+    if (!this.running) return;
+    this.index = (this.index + 1) % this.playlist.length;
+    // 每轮结束后重新洗牌，避免随机模式下重复相同顺序
+    if (this.index === 0 && this.order === "shuffle") this._shuffle();
+    this._show();
+  }
+
+  private _show(): void {
+    this.onSelect(this.playlist[this.index]);
+    this.remaining = this.duration;
+    if (!this.suspended) this._startTimer();
+  }
+
+  private _startTimer(): void {
+    window.clearTimeout(this.timerId);
+    this.timerStart = performance.now();
+    this.timerId = window.setTimeout(() => this.next(), this.remaining);
+  }
+
+  private _startSweep(): void {
+    if (!this.sweep || this.sweepRafId) return;
+    this.sweepStart = 0;
+    this.sweepRafId = requestAnimationFrame(this._tickSweep);
+  }
+
+  /**
+   * 引擎暂停时挂起：记录剩余停留时长与扫动相位，不再切换变体或设置指针偏移
+   */
+  private _suspend(): void {
+    if (!this.running || this.suspended) return;
+    this.suspended = true;
+    window.clearTimeout(this.timerId);
+    this.timerId = 0;
+    this.remaining = Math.max(
+      0,
+      this.remaining - (performance.now() - this.timerStart),
+    );
+    if (this.sweepRafId) {
+      cancelAnimationFrame(this.sweepRafId);
+      this.sweepRafId = 0;
+    }
+  }
+
+  private _resume(): void {
+    if (!this.running || !this.suspended) return;
+    this.suspended = false;
+    this._startTimer();
+    this._startSweep();
+  }
+
+  private _shuffle(): void {
+    const list = this.playlist;
+    for (let i = list.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [list[i], list[j]] = [list[j], list[i]];
+    }
+  }
+
+  /**
+   * 正弦扫动：从中心出发向右，再向左，往复循环
+   */
+  private _tickSweep = (timestamp: DOMHighResTimeStamp): void => {
+    if (!this.running) return;
+    if (!this.sweepStart) this.sweepStart = timestamp - this.sweepElapsed;
+    this.sweepElapsed = timestamp - this.sweepStart;
+    const phase = (this.sweepElapsed / this.sweepPeriod) * 2;
+    this.engine.setPointerOffset(
+      Math.sin(phase * Math.PI) * this.sweepAmplitude,
+    );
+    this.sweepRafId = requestAnimationFrame(this._tickSweep);
+  };
+}
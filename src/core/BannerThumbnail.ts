@@ -0,0 +1,100 @@
+/**
+ * Banner 缩略图生成
+ * 清单未声明 thumbnail 时，按静止状态（moveX = 0）离屏合成一张完整画面的预览图；
+ * 复用 AssetPreloader 加载素材、CanvasRenderer 绘制，结果与实时画面一致。
+ * 时间线滚动时会为每个条目生成预览，因此只加载图片素材：视差场景跳过视频图层，
+ * 纯视频模式只取首帧，绘制后立即中断下载。
+ */
+
+import AssetPreloader, { collectAssetSources } from "./AssetPreloader";
+import type {
+  ParallaxLayer,
+  ParticleLayerConfig,
+  SimpleVideoData,
+  StandardBannerData,
+} from "./BannerEngine";
+import CanvasRenderer, { type CanvasLayer } from "./CanvasRenderer";
+import {
+  computeFrame,
+  computeFraming,
+  DESIGN_HEIGHT,
+  DESIGN_WIDTH,
+  prepareLayer,
+} from "./ParallaxMath";
+
+export interface ThumbnailOptions {
+  width?: number; // 截取宽度（px），默认 480
+  height?: number; // 截取高度（px），默认按设计稿宽高比计算
+  type?: string; // 输出格式，默认 image/webp
+  quality?: number; // 有损格式的质量，默认 0.8
+}
+
+const preloader = new AssetPreloader();
+
+/**
+ * 生成缩略图
+ * @param {StandardBannerData} data - 标准化后的变体数据
+ * @param {ThumbnailOptions} [options] - 输出选项
+ * @returns {Promise<string>} 缩略图的 Object URL，没有可绘制的素材时为空字符串
+ */
+export async function renderThumbnail(
+  data: StandardBannerData,
+  options: ThumbnailOptions = {},
+): Promise<string> {
+  const canvas = document.createElement("canvas");
+  canvas.width = options.width || 480;
+  canvas.height =
+    options.height || Math.round((canvas.width * DESIGN_HEIGHT) / DESIGN_WIDTH);
+  const renderer = new CanvasRenderer(canvas);
+
+  // 粒子只是点缀，视频图层体积过大，缩略图均不加载
+  const requests = collectAssetSources({
+    ...data,
+    payload: Array.isArray(data.payload)
+      ? data.payload.filter(
+          (item) => item.type !== "particle" && item.type !== "video",
+        )
+      : data.payload,
+  });
+  if (requests.length === 0) return "";
+  const assets = await preloader.load(requests);
+
+  if (data.type === "simple-video") {
+    const video = assets.get((data.payload as SimpleVideoData).src);
+    if (!video) return "";
+    renderer.drawCover(video, data.framing?.focus);
+  } else {
+    // 安全区覆盖整张设计稿，即缩小到完整显示全部画面
+    const fit = computeFraming(canvas.width, canvas.height, {
+      safeArea: [DESIGN_WIDTH, DESIGN_HEIGHT],
+    });
+    const layers = (data.payload as Array<ParallaxLayer | ParticleLayerConfig>)
+      .filter((item): item is ParallaxLayer => item.type !== "particle")
+      .map((item) => prepareLayer(item, fit.scale, fit.shiftX, fit.shiftY));
+    const canvasLayers: CanvasLayer[] = layers.map((layer) => ({
+      source: assets.get(layer.src) || new Image(),
+      layer,
+      width: layer.width * fit.scale,
+      height: layer.height && layer.height * fit.scale,
+      visible: assets.has(layer.src),
+    }));
+    renderer.draw(
+      canvasLayers,
+      computeFrame(layers, 0, { viewportWidth: canvas.width }),
+    );
+  }
+
+  // 视频元素不再需要，释放解码资源
+  for (const el of assets.values()) {
+    if (el instanceof HTMLVideoElement) el.removeAttribute("src");
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(
+      resolve,
+      options.type || "image/webp",
+      options.quality ?? 0.8,
+    ),
+  );
+  return blob ? URL.createObjectURL(blob) : "";
+}
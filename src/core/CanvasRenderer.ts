@@ -0,0 +1,296 @@
+/**
+ * Canvas 2D 渲染后端
+ * 在单个 canvas 上按顺序合成所有图片/视频图层与粒子，替代逐层 DOM 变换。
+ * 几何与 DOM 后端保持一致：图层以容器中心为变换原点，媒体元素居中放置，
+ * 依次叠加基础矩阵、视差矩阵与旋转；blur/opacity 通过 filter/globalAlpha 实现。
+ *
+ * 媒体元素仍由引擎创建并挂在场景中（不可见）以便视频正常播放，
+ * 渲染器只负责每帧把它们绘制到 canvas 上。粒子层按其在 data.json 中的位置穿插在图层之间绘制。
+ */
+
+import type { ParallaxLayer } from "./BannerEngine";
+import type { LayerFrame, ParticleOffset } from "./ParallaxMath";
+import type ParticleSystem from "./ParticleSystem";
+import { spriteGrid } from "./Sprite";
+
+export interface CanvasLayer {
+  source: HTMLImageElement | HTMLVideoElement;
+  layer: ParallaxLayer; // 经 prepareLayer 处理后的图层
+  width: number; // 已按补偿系数换算的绘制宽度
+  height?: number; // 缺省时按素材宽高比计算
+  visible: boolean;
+}
+
+export interface CanvasParticleLayer {
+  particles: ParticleSystem;
+  index: number; // 绘制在第 index 个图层之前，等于图层数时位于最上层
+}
+
+export default class CanvasRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private layers: CanvasLayer[] = [];
+  private frames: LayerFrame[] = [];
+  private particles: CanvasParticleLayer[] = [];
+  private offsets: ParticleOffset[] = [];
+  private rafId: number = 0;
+  private running: boolean = false;
+  private disposed: boolean = false;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const context = canvas.getContext("2d");
+
+    if (!context) {
+      throw new Error("Could not get 2D context from canvas");
+    }
+
+    this.ctx = context;
+  }
+
+  /**
+   * 开始逐帧渲染（视频与粒子需要持续重绘）
+   */
+  public start(): void {
+    if (this.disposed || this.running) return;
+    this.running = true;
+    this._cancelFrame();
+    this.rafId = requestAnimationFrame(this._tick);
+  }
+
+  /**
+   * 停止逐帧渲染，画面停留在最后一帧；之后的数据变更仍会触发单次重绘
+   */
+  public pause(): void {
+    this.running = false;
+    this._cancelFrame();
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    this.pause();
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.layers = [];
+    this.frames = [];
+    this.particles = [];
+    this.offsets = [];
+  }
+
+  public resize(width: number, height: number): void {
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.requestRender();
+  }
+
+  public setLayers(layers: CanvasLayer[]): void {
+    this.layers = layers;
+    this.requestRender();
+  }
+
+  /**
+   * @param {LayerFrame[]} frames - 各图层的帧数据
+   * @param {ParticleOffset[]} [offsets] - 各粒子层的视差平移，与 setParticles 的顺序一致
+   */
+  public setFrames(frames: LayerFrame[], offsets: ParticleOffset[] = []): void {
+    this.frames = frames;
+    this.offsets = offsets;
+    this.requestRender();
+  }
+
+  /**
+   * 指定与图层一同合成的粒子层（粒子系统通过 load() 初始化后即可绘制出内容）
+   */
+  public setParticles(particles: CanvasParticleLayer[]): void {
+    this.particles = particles;
+    this.requestRender();
+  }
+
+  /**
+   * 暂停状态下请求重绘一帧；逐帧渲染中则由下一帧自然更新
+   */
+  public requestRender(): void {
+    if (this.disposed || this.running || this.rafId) return;
+    this.rafId = requestAnimationFrame(() => {
+      this.rafId = 0;
+      this.render(false);
+    });
+  }
+
+  /**
+   * 以当前状态执行一次完整合成
+   * @param {boolean} advance - 是否先推进粒子动画
+   */
+  public render(advance: boolean): void {
+    if (advance) {
+      for (const item of this.particles) item.particles.step();
+    }
+    this.draw(this.layers, this.frames, this.particles, this.offsets);
+  }
+
+  /**
+   * 按给定图层、帧数据与粒子合成一帧（不依赖渲染器自身状态，可用于离屏导出）
+   */
+  public draw(
+    layers: CanvasLayer[],
+    frames: LayerFrame[],
+    particles: CanvasParticleLayer[] = [],
+    offsets: ParticleOffset[] = [],
+  ): void {
+    const { ctx } = this;
+    const { width, height } = this.canvas;
+    this._resetContext();
+    ctx.clearRect(0, 0, width, height);
+
+    for (let i = 0; i <= layers.length; i++) {
+      particles.forEach((item, j) => {
+        if (item.index === i) this._drawParticles(item, offsets[j]);
+      });
+      const frame = frames[i];
+      if (i < layers.length && frame) {
+        this._drawLayer(layers[i], frame, width, height);
+      }
+    }
+  }
+
+  /**
+   * 等比铺满画布绘制单个媒体元素（对应 object-fit: cover），用于纯视频模式
+   * @param {[number, number]} [focus] - 裁切对齐点（对应 object-position），默认居中
+   */
+  public drawCover(
+    source: HTMLImageElement | HTMLVideoElement,
+    focus: [number, number] = [0.5, 0.5],
+  ): void {
+    const { ctx } = this;
+    const { width, height } = this.canvas;
+    this._resetContext();
+    ctx.clearRect(0, 0, width, height);
+    if (!this._isDrawable(source)) return;
+
+    const ratio = this._aspectRatio(source);
+    const scale = Math.max(width, height / ratio) / width;
+    const drawWidth = width * scale;
+    const drawHeight = drawWidth * ratio;
+    ctx.drawImage(
+      source,
+      (width - drawWidth) * focus[0],
+      (height - drawHeight) * focus[1],
+      drawWidth,
+      drawHeight,
+    );
+  }
+
+  private _resetContext(): void {
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.filter = "none";
+    this.ctx.globalAlpha = 1;
+  }
+
+  private _drawLayer(
+    item: CanvasLayer,
+    frame: LayerFrame,
+    width: number,
+    height: number,
+  ): void {
+    const { source, layer } = item;
+    if (!item.visible || !this._isDrawable(source)) return;
+
+    const sprite = layer.type === "sprite" ? layer.sprite : null;
+    const drawWidth = item.width;
+    const drawHeight =
+      item.height ??
+      drawWidth *
+        (sprite
+          ? sprite.frameHeight / sprite.frameWidth
+          : this._aspectRatio(source));
+    const [a, b, c, d, tx, ty] = layer._baseMatrix || layer.transform;
+    const { ctx } = this;
+
+    // 与 CSS 一致：transform-origin 位于图层（即容器）中心
+    ctx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+    ctx.transform(a, b, c, d, tx, ty);
+    ctx.transform(
+      frame.scale,
+      0,
+      0,
+      frame.scale,
+      frame.translateX,
+      frame.translateY,
+    );
+    if (frame.rotate) ctx.rotate((frame.rotate * Math.PI) / 180);
+    const { animation } = frame;
+    if (animation) {
+      ctx.translate(animation.translateX, animation.translateY);
+      ctx.rotate((animation.rotate * Math.PI) / 180);
+      ctx.scale(animation.scale, animation.scale);
+    }
+
+    ctx.globalAlpha = frame.opacity ?? layer.opacity?.[0] ?? 1;
+    ctx.filter = layer.blur ? `blur(${layer.blur}px)` : "none";
+    if (!sprite) {
+      ctx.drawImage(
+        source,
+        -drawWidth / 2,
+        -drawHeight / 2,
+        drawWidth,
+        drawHeight,
+      );
+      return;
+    }
+
+    // 序列帧：从精灵图网格中裁出当前帧
+    const { columns, rows } = spriteGrid(sprite);
+    const index = frame.spriteFrame ?? 0;
+    const sw = (source as HTMLImageElement).naturalWidth / columns;
+    const sh = (source as HTMLImageElement).naturalHeight / rows;
+    ctx.drawImage(
+      source,
+      (index % columns) * sw,
+      Math.floor(index / columns) * sh,
+      sw,
+      sh,
+      -drawWidth / 2,
+      -drawHeight / 2,
+      drawWidth,
+      drawHeight,
+    );
+  }
+
+  private _drawParticles(
+    item: CanvasParticleLayer,
+    offset: ParticleOffset | undefined,
+  ): void {
+    this._resetContext();
+    if (offset) this.ctx.translate(offset.translateX, offset.translateY);
+    item.particles.draw(this.ctx);
+  }
+
+  /**
+   * 未加载完成或加载失败的素材直接跳过，避免 drawImage 抛错
+   */
+  private _isDrawable(source: HTMLImageElement | HTMLVideoElement): boolean {
+    return source instanceof HTMLVideoElement
+      ? source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA
+      : source.complete && source.naturalWidth > 0;
+  }
+
+  private _aspectRatio(source: HTMLImageElement | HTMLVideoElement): number {
+    const [w, h] =
+      source instanceof HTMLVideoElement
+        ? [source.videoWidth, source.videoHeight]
+        : [source.naturalWidth, source.naturalHeight];
+    return w > 0 ? h / w : 0;
+  }
+
+  private _cancelFrame(): void {
+    if (this.rafId) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = 0;
+    }
+  }
+
+  private _tick = (): void => {
+    if (!this.running) return;
+    this.render(true);
+    this.rafId = requestAnimationFrame(this._tick);
+  };
+}
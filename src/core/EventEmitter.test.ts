@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import EventEmitter from "./EventEmitter";
+
+interface TestEvents {
+  change: number;
+  done: undefined;
+}
+
+describe("EventEmitter", () => {
+  it("delivers payloads until unsubscribed", () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    const unsubscribe = events.on("change", handler);
+    events.emit("change", 1);
+    unsubscribe();
+    events.emit("change", 2);
+    expect(handler.mock.calls).toEqual([[1]]);
+  });
+
+  it("calls once handlers a single time", () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.once("change", handler);
+    events.emit("change", 1);
+    events.emit("change", 2);
+    expect(handler.mock.calls).toEqual([[1]]);
+  });
+
+  it("removes once handlers through off with the original function", () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.once("change", handler);
+    events.off("change", handler);
+    events.emit("change", 1);
+    expect(handler).not.toHaveBeenCalled();
+
+    const unsubscribe = events.once("change", handler);
+    unsubscribe();
+    events.emit("change", 2);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("keeps a regular subscription when a once subscription of the same handler fires", () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.on("change", handler);
+    events.once("change", handler);
+    events.emit("change", 1);
+    events.emit("change", 2);
+    expect(handler.mock.calls).toEqual([[1], [1], [2]]);
+  });
+
+  it("isolates failing handlers", () => {
+    const events = new EventEmitter<TestEvents>();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const handler = vi.fn();
+    events.on("done", () => {
+      throw new Error("boom");
+    });
+    events.on("done", handler);
+    events.emit("done", undefined);
+    expect(handler).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * 轻量类型化事件派发器
+ * 事件名与载荷类型由泛型映射表约束，供引擎等模块对外暴露生命周期钩子。
+ */
+
+export type EventHandler<T> = (payload: T) => void;
+
+export default class EventEmitter<Events extends object> {
+  private handlers: {
+    [K in keyof Events]?: Set<EventHandler<Events[K]>>;
+  } = {};
+  // once() 注册的是包装函数，记录原函数到包装函数的映射，使 off(type, handler) 同样有效
+  private onceWrappers: {
+    [K in keyof Events]?: Map<EventHandler<Events[K]>, EventHandler<Events[K]>>;
+  } = {};
+
+  /**
+   * 订阅事件
+   * @returns {() => void} 取消订阅函数
+   */
+  public on<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void {
+    let set = this.handlers[type];
+    if (!set) {
+      set = new Set();
+      this.handlers[type] = set;
+    }
+    set.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * 订阅一次性事件，触发后自动注销；触发前可通过返回的函数或 off(type, handler) 取消
+   */
+  public once<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void {
+    let wrappers = this.onceWrappers[type];
+    if (!wrappers) {
+      wrappers = new Map();
+      this.onceWrappers[type] = wrappers;
+    }
+    const wrapper: EventHandler<Events[K]> = (payload) => {
+      this._removeOnce(type, handler);
+      handler(payload);
+    };
+    this._removeOnce(type, handler); // 同一函数重复 once 时只保留最后一次
+    wrappers.set(handler, wrapper);
+    this.on(type, wrapper);
+    return () => this._removeOnce(type, handler);
+  }
+
+  public off<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>,
+  ): void {
+    this.handlers[type]?.delete(handler);
+    this._removeOnce(type, handler);
+  }
+
+  /**
+   * 派发事件，单个监听器抛错不影响其他监听器
+   */
+  public emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const set = this.handlers[type];
+    if (!set) return;
+    for (const handler of [...set]) {
+      try {
+        handler(payload);
+      } catch (e) {
+        console.error(`[EventEmitter] "${String(type)}" handler failed`, e);
+      }
+    }
+  }
+
+  private _removeOnce<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>,
+  ): void {
+    const wrapper = this.onceWrappers[type]?.get(handler);
+    if (!wrapper) return;
+    this.handlers[type]?.delete(wrapper);
+    this.onceWrappers[type]?.delete(handler);
+  }
+
+  public clear(): void {
+    this.handlers = {};
+    this.onceWrappers = {};
+  }
+}
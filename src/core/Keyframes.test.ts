@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  cycleProgress,
+  type LayerKeyframes,
+  sampleKeyframes,
+  sampleTrack,
+} from "./Keyframes";
+import { EASINGS } from "./MotionPhysics";
+
+function keyframes(overrides: Partial<LayerKeyframes> = {}): LayerKeyframes {
+  return {
+    duration: 1000,
+    tracks: {
+      x: [
+        [0, 0],
+        [1, 100],
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe("cycleProgress", () => {
+  it("loops by default", () => {
+    expect(cycleProgress(keyframes(), 250)).toBe(0.25);
+    expect(cycleProgress(keyframes(), 1250)).toBe(0.25);
+  });
+
+  it("plays backwards on odd cycles when alternating", () => {
+    const item = keyframes({ loop: "alternate" });
+    expect(cycleProgress(item, 250)).toBe(0.25);
+    expect(cycleProgress(item, 1250)).toBe(0.75);
+  });
+
+  it("holds the last frame when not looping", () => {
+    expect(cycleProgress(keyframes({ loop: false }), 5000)).toBe(1);
+  });
+
+  it("waits for the delay", () => {
+    const item = keyframes({ delay: 500 });
+    expect(cycleProgress(item, 200)).toBe(0);
+    expect(cycleProgress(item, 750)).toBe(0.25);
+  });
+});
+
+describe("sampleTrack", () => {
+  const track: Array<[number, number]> = [
+    [0.2, 10],
+    [0.6, 50],
+    [1, 0],
+  ];
+
+  it("interpolates between neighbouring keyframes", () => {
+    expect(sampleTrack(track, 0.4)).toBeCloseTo(30);
+    expect(sampleTrack(track, 0.8)).toBeCloseTo(25);
+  });
+
+  it("clamps outside the keyframe range", () => {
+    expect(sampleTrack(track, 0)).toBe(10);
+    expect(
+      sampleTrack(
+        [
+          [0, 1],
+          [0.5, 2],
+        ],
+        0.9,
+      ),
+    ).toBe(2);
+  });
+
+  it("prefers the per-keyframe easing", () => {
+    const eased = sampleTrack(
+      [
+        [0, 0, "easeOutQuad"],
+        [1, 100],
+      ],
+      0.5,
+      EASINGS.linear,
+    );
+    expect(eased).toBeCloseTo(75);
+    expect(
+      sampleTrack(
+        [
+          [0, 0],
+          [1, 100],
+        ],
+        0.5,
+        EASINGS.easeOutQuad,
+      ),
+    ).toBe(75);
+  });
+});
+
+describe("sampleKeyframes", () => {
+  it("fills untouched properties with neutral values", () => {
+    expect(sampleKeyframes(keyframes(), 500)).toEqual({
+      translateX: 50,
+      translateY: 0,
+      rotate: 0,
+      scale: 1,
+      opacity: null,
+    });
+  });
+
+  it("samples every track at the same progress", () => {
+    const pose = sampleKeyframes(
+      keyframes({
+        tracks: {
+          rotate: [
+            [0, 0],
+            [1, 360],
+          ],
+          opacity: [
+            [0, 1],
+            [1, 0],
+          ],
+        },
+      }),
+      250,
+    );
+    expect(pose.rotate).toBe(90);
+    expect(pose.opacity).toBe(0.75);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * 图层关键帧动画
+ * 不依赖 DOM 的纯函数：按时钟采样图层 keyframes 中的位移/旋转/缩放/透明度轨道，
+ * 结果由 ParallaxMath 叠加在视差矩阵之上，让风车、风筝、云朵等元素不依赖指针自行运动。
+ */
+
+import {
+  EASINGS,
+  type EasingFunction,
+  type EasingName,
+  isEasingName,
+} from "./MotionPhysics";
+
+export type KeyframeProperty = "x" | "y" | "rotate" | "scale" | "opacity";
+
+// [进度 0-1, 取值, 到下一帧的缓动]，缓动缺省时使用轨道组的 easing
+export type Keyframe = [offset: number, value: number, easing?: EasingName];
+
+export interface LayerKeyframes {
+  duration: number; // 一个周期的时长（ms）
+  delay?: number; // 首次播放前的等待（ms），默认 0
+  loop?: boolean | "alternate"; // 默认 true；alternate 往返播放；false 播放一次后停在末帧
+  easing?: EasingName; // 关键帧之间的默认缓动，默认 linear
+  tracks: Partial<Record<KeyframeProperty, Keyframe[]>>;
+}
+
+// 叠加在视差变换之后的附加变换
+export interface KeyframePose {
+  translateX: number; // px
+  translateY: number; // px
+  rotate: number; // deg
+  scale: number;
+  opacity: number | null; // 未配置 opacity 轨道时为 null
+}
+
+/**
+ * 将时钟换算为周期内的进度
+ * @param {LayerKeyframes} keyframes - 关键帧配置
+ * @param {number} time - 时钟（ms）
+ * @returns {number} 0-1
+ */
+export function cycleProgress(keyframes: LayerKeyframes, time: number): number {
+  const { duration, loop = true } = keyframes;
+  const elapsed = time - (keyframes.delay || 0);
+  if (elapsed <= 0) return 0;
+  if (duration <= 0) return 1;
+  if (!loop) return Math.min(elapsed / duration, 1);
+
+  const cycle = elapsed / duration;
+  const progress = cycle % 1;
+  if (loop === "alternate" && Math.floor(cycle) % 2 === 1) return 1 - progress;
+  return progress;
+}
+
+/**
+ * 在单条轨道上按进度插值，进度落在首帧之前或末帧之后时取端点值
+ */
+export function sampleTrack(
+  track: Keyframe[],
+  progress: number,
+  easing: EasingFunction = EASINGS.linear,
+): number {
+  if (track.length === 0) return 0;
+  const first = track[0];
+  if (progress <= first[0]) return first[1];
+
+  for (let i = 0; i < track.length - 1; i++) {
+    const [start, from, name] = track[i];
+    const [end, to] = track[i + 1];
+    if (progress > end) continue;
+    const span = end - start;
+    const local = span > 0 ? (progress - start) / span : 1;
+    const ease = isEasingName(name) ? EASINGS[name] : easing;
+    return from + (to - from) * ease(local);
+  }
+  return track[track.length - 1][1];
+}
+
+/**
+ * 采样所有轨道，得到当前时刻的附加变换
+ */
+export function sampleKeyframes(
+  keyframes: LayerKeyframes,
+  time: number,
+): KeyframePose {
+  const progress = cycleProgress(keyframes, time);
+  const easing = isEasingName(keyframes.easing)
+    ? EASINGS[keyframes.easing]
+    : EASINGS.linear;
+  const { tracks } = keyframes;
+  const sample = (property: KeyframeProperty, fallback: number) => {
+    const track = tracks[property];
+    return track ? sampleTrack(track, progress, easing) : fallback;
+  };
+
+  return {
+    translateX: sample("x", 0),
+    translateY: sample("y", 0),
+    rotate: sample("rotate", 0),
+    scale: sample("scale", 1),
+    opacity: tracks.opacity ? sample("opacity", 1) : null,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSpringState,
+  DEFAULT_SPRING,
+  EASINGS,
+  easeOutQuart,
+  isAtRest,
+  isEasingName,
+  resolvePhysics,
+  type SpringState,
+  stepSpring,
+  withInertia,
+} from "./MotionPhysics";
+
+function simulate(
+  state: SpringState,
+  target: number,
+  config = DEFAULT_SPRING,
+  frames = 60,
+): SpringState[] {
+  const states: SpringState[] = [];
+  for (let i = 0; i < frames; i++) {
+    state = stepSpring(state, target, 0, config, 1 / 60);
+    states.push(state);
+  }
+  return states;
+}
+
+describe("EASINGS", () => {
+  it("starts at 0 and ends at 1", () => {
+    for (const easing of Object.values(EASINGS)) {
+      expect(easing(0)).toBeCloseTo(0);
+      expect(easing(1)).toBeCloseTo(1);
+    }
+  });
+
+  it("validates easing names", () => {
+    expect(isEasingName("easeOutBack")).toBe(true);
+    expect(isEasingName("toString")).toBe(false);
+    expect(isEasingName(1)).toBe(false);
+  });
+});
+
+describe("resolvePhysics", () => {
+  it("keeps the legacy behaviour by default", () => {
+    const physics = resolvePhysics();
+    expect(physics.spring).toBeNull();
+    expect(physics.easing).toBe(easeOutQuart);
+    expect(physics.duration).toBe(300);
+  });
+
+  it("lets later configs override earlier ones", () => {
+    const physics = resolvePhysics(
+      { spring: { stiffness: 200 }, easing: "linear", duration: 500 },
+      { easing: "easeOutBack" },
+    );
+    expect(physics.spring).toEqual({ ...DEFAULT_SPRING, stiffness: 200 });
+    expect(physics.easing).toBe(EASINGS.easeOutBack);
+    expect(physics.duration).toBe(500);
+    expect(resolvePhysics({ spring: {} }, { spring: false }).spring).toBeNull();
+  });
+
+  it("falls back to easeOutQuart for unknown names", () => {
+    const physics = resolvePhysics({ easing: "nope" as "linear" });
+    expect(physics.easing).toBe(easeOutQuart);
+  });
+});
+
+describe("stepSpring", () => {
+  it("lags behind the target and settles on it", () => {
+    const states = simulate(createSpringState(0, 0), 100, DEFAULT_SPRING, 240);
+    expect(states[0].x).toBeGreaterThan(0);
+    expect(states[0].x).toBeLessThan(100);
+    expect(isAtRest(states[states.length - 1], 100, 0)).toBe(true);
+  });
+
+  it("overshoots when underdamped", () => {
+    const states = simulate(createSpringState(0, 0), 100, {
+      ...DEFAULT_SPRING,
+      damping: 4,
+    });
+    expect(Math.max(...states.map((s) => s.x))).toBeGreaterThan(100);
+  });
+
+  it("moves heavier layers more slowly", () => {
+    const light = simulate(createSpringState(0, 0), 100, DEFAULT_SPRING, 10);
+    const heavy = simulate(
+      createSpringState(0, 0),
+      100,
+      withInertia(DEFAULT_SPRING, 3),
+      10,
+    );
+    expect(heavy[9].x).toBeLessThan(light[9].x);
+    expect(withInertia(DEFAULT_SPRING)).toBe(DEFAULT_SPRING);
+  });
+
+  it("stays stable on long frames", () => {
+    const state = stepSpring(
+      createSpringState(0, 0),
+      100,
+      0,
+      { ...DEFAULT_SPRING, mass: 0.1 },
+      0.5,
+    );
+    expect(Number.isFinite(state.x)).toBe(true);
+    expect(Math.abs(state.x)).toBeLessThan(200);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * 指针跟随与回正的动力学模块
+ * 不依赖 DOM 的纯函数：弹簧-阻尼模型让图层滞后于指针并自然停稳，
+ * 缓动函数库供回正动画选用，由 BannerEngine 逐帧调用。
+ */
+
+export interface SpringConfig {
+  stiffness: number; // 刚度，越大跟随越紧
+  damping: number; // 阻尼，越小停稳前的回弹越明显
+  mass: number; // 质量，越大起步与停下越迟缓
+}
+
+// 单个图层在两个轴上的弹簧状态（px 与 px/s）
+export interface SpringState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface PhysicsConfig {
+  spring?: Partial<SpringConfig> | false; // 指针跟随弹簧，缺省或 false 时图层直接跳到指针位置
+  easing?: EasingName; // 回正缓动，默认 easeOutQuart
+  duration?: number; // 回正时长（ms），默认 300
+}
+
+// 补全默认值后的配置
+export interface ResolvedPhysics {
+  spring: SpringConfig | null;
+  easing: EasingFunction;
+  duration: number;
+}
+
+export type EasingFunction = (x: number) => number;
+
+const C1 = 1.70158;
+const C3 = C1 + 1;
+const C4 = (2 * Math.PI) / 3;
+
+export function easeOutQuart(x: number): number {
+  return 1 - (1 - x) ** 4;
+}
+
+function easeOutBounce(x: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (x < 1 / d1) return n1 * x * x;
+  if (x < 2 / d1) return n1 * (x - 1.5 / d1) ** 2 + 0.75;
+  if (x < 2.5 / d1) return n1 * (x - 2.25 / d1) ** 2 + 0.9375;
+  return n1 * (x - 2.625 / d1) ** 2 + 0.984375;
+}
+
+/**
+ * 回正缓动函数库，输入输出均为 0-1 的进度（easeOutBack/easeOutElastic 会短暂越过终点）
+ */
+export const EASINGS = {
+  linear: (x: number) => x,
+  easeInOutSine: (x: number) => -(Math.cos(Math.PI * x) - 1) / 2,
+  easeOutQuad: (x: number) => 1 - (1 - x) ** 2,
+  easeOutCubic: (x: number) => 1 - (1 - x) ** 3,
+  easeOutQuart,
+  easeOutQuint: (x: number) => 1 - (1 - x) ** 5,
+  easeOutExpo: (x: number) => (x === 1 ? 1 : 1 - 2 ** (-10 * x)),
+  easeOutBack: (x: number) => 1 + C3 * (x - 1) ** 3 + C1 * (x - 1) ** 2,
+  easeOutElastic: (x: number) =>
+    x === 0 || x === 1
+      ? x
+      : 2 ** (-10 * x) * Math.sin((x * 10 - 0.75) * C4) + 1,
+  easeOutBounce,
+} satisfies Record<string, EasingFunction>;
+
+export type EasingName = keyof typeof EASINGS;
+
+export const DEFAULT_SPRING: SpringConfig = {
+  stiffness: 120,
+  damping: 14,
+  mass: 1,
+};
+
+const DEFAULT_DURATION = 300;
+// 单次积分的最大步长（s），掉帧时拆分为多步以保持稳定
+const MAX_SUBSTEP = 1 / 120;
+// 距离与速度均低于阈值时视为停稳
+const REST_DISTANCE = 0.05;
+const REST_VELOCITY = 1;
+
+export function isEasingName(name: unknown): name is EasingName {
+  return typeof name === "string" && Object.hasOwn(EASINGS, name);
+}
+
+/**
+ * 合并引擎级与 Banner 级配置，后者逐项覆盖前者
+ * @param {PhysicsConfig[]} configs - 按优先级从低到高排列
+ */
+export function resolvePhysics(
+  ...configs: Array<PhysicsConfig | undefined>
+): ResolvedPhysics {
+  const merged: PhysicsConfig = Object.assign({}, ...configs);
+  return {
+    spring: merged.spring ? { ...DEFAULT_SPRING, ...merged.spring } : null,
+    easing: isEasingName(merged.easing) ? EASINGS[merged.easing] : easeOutQuart,
+    duration: merged.duration ?? DEFAULT_DURATION,
+  };
+}
+
+/**
+ * 按图层惯性换算弹簧参数：惯性越大质量越大，深处的图层更“沉”
+ * @param {number} [inertia] - 图层惯性倍率，默认 1，非正数视为 1
+ */
+export function withInertia(
+  spring: SpringConfig,
+  inertia: number = 1,
+): SpringConfig {
+  return inertia === 1 || !(inertia > 0)
+    ? spring
+    : { ...spring, mass: spring.mass * inertia };
+}
+
+export function createSpringState(x: number, y: number): SpringState {
+  return { x, y, vx: 0, vy: 0 };
+}
+
+/**
+ * 将弹簧向目标推进 dt 秒（半隐式欧拉积分），停稳时直接吸附到目标
+ * @param {SpringState} state - 当前状态
+ * @param {number} targetX - 目标水平偏移
+ * @param {number} targetY - 目标垂直偏移
+ * @param {SpringConfig} config - 弹簧参数
+ * @param {number} dt - 时间步长（s）
+ * @returns {SpringState} 新状态
+ */
+export function stepSpring(
+  state: SpringState,
+  targetX: number,
+  targetY: number,
+  config: SpringConfig,
+  dt: number,
+): SpringState {
+  let { x, y, vx, vy } = state;
+  const steps = Math.max(1, Math.ceil(dt / MAX_SUBSTEP));
+  const h = dt / steps;
+  const { stiffness, damping, mass } = config;
+
+  for (let i = 0; i < steps; i++) {
+    vx += ((-stiffness * (x - targetX) - damping * vx) / mass) * h;
+    vy += ((-stiffness * (y - targetY) - damping * vy) / mass) * h;
+    x += vx * h;
+    y += vy * h;
+  }
+
+  if (
+    Math.abs(x - targetX) < REST_DISTANCE &&
+    Math.abs(y - targetY) < REST_DISTANCE &&
+    Math.abs(vx) < REST_VELOCITY &&
+    Math.abs(vy) < REST_VELOCITY
+  ) {
+    return createSpringState(targetX, targetY);
+  }
+  return { x, y, vx, vy };
+}
+
+/**
+ * 弹簧是否已停在目标位置
+ */
+export function isAtRest(
+  state: SpringState,
+  targetX: number,
+  targetY: number,
+): boolean {
+  return (
+    state.x === targetX &&
+    state.y === targetY &&
+    state.vx === 0 &&
+    state.vy === 0
+  );
+}
@@ -0,0 +1,319 @@
+import { describe, expect, it } from "vitest";
+import type { ParallaxLayer } from "./BannerEngine";
+import {
+  calcCompensate,
+  computeFrame,
+  computeFraming,
+  computeLayerFrame,
+  computeParticleOffset,
+  easeOutQuart,
+  interpolateOpacity,
+  lerp,
+  prepareLayer,
+} from "./ParallaxMath";
+
+const VIEWPORT = { viewportWidth: 1000 };
+
+function layer(overrides: Partial<ParallaxLayer> = {}): ParallaxLayer {
+  return {
+    type: "image",
+    src: "./assets/test/layer.png",
+    width: 100,
+    transform: [1, 0, 0, 1, 10, 20],
+    a: 0.5,
+    ...overrides,
+  } as ParallaxLayer;
+}
+
+describe("lerp / easeOutQuart", () => {
+  it("interpolates between endpoints", () => {
+    expect(lerp(10, 20, 0)).toBe(10);
+    expect(lerp(10, 20, 1)).toBe(20);
+    expect(lerp(10, 20, 0.25)).toBe(12.5);
+  });
+
+  it("eases out from 0 to 1", () => {
+    expect(easeOutQuart(0)).toBe(0);
+    expect(easeOutQuart(1)).toBe(1);
+    expect(easeOutQuart(0.5)).toBeCloseTo(0.9375);
+  });
+});
+
+describe("calcCompensate", () => {
+  it("keeps scale 1 up to the base width", () => {
+    expect(calcCompensate(1200, 1650)).toBe(1);
+    expect(calcCompensate(1650, 1650)).toBe(1);
+  });
+
+  it("scales proportionally on wider viewports", () => {
+    expect(calcCompensate(3300, 1650)).toBe(2);
+  });
+});
+
+describe("computeFraming", () => {
+  it("matches calcCompensate without framing data", () => {
+    expect(computeFraming(1200, 160)).toEqual({
+      scale: 1,
+      shiftX: 0,
+      shiftY: 0,
+    });
+    expect(computeFraming(3300, 320).scale).toBe(2);
+  });
+
+  it("scales down until the safe area fits", () => {
+    const fit = computeFraming(400, 160, { safeArea: [800, 100] });
+    expect(fit.scale).toBe(0.5);
+    expect(computeFraming(1200, 160, { safeArea: [800, 100] }).scale).toBe(1);
+  });
+
+  it("scales narrow containers down without framing data", () => {
+    // 手机宽度：默认安全区 1000px 需完整放下
+    const fit = computeFraming(375, 160);
+    expect(fit.scale).toBe(0.375);
+    expect(fit.shiftX).toBe(0);
+    expect(computeFraming(1000, 160).scale).toBe(1);
+  });
+
+  it("never shrinks below the container when scaling up", () => {
+    const fit = computeFraming(3300, 160, { safeArea: [800, 150] });
+    expect(fit.scale).toBe(2);
+  });
+
+  it("centers the focus point without exposing the design edges", () => {
+    // 主体位于设计稿 3/4 处：1650 * 0.25 = 412.5 px，可平移上限 (1650 - 1000) / 2 = 325
+    expect(computeFraming(1000, 160, { focus: [0.75, 0.5] }).shiftX).toBe(-325);
+    expect(
+      computeFraming(1400, 160, { focus: [0.55, 0.5] }).shiftX,
+    ).toBeCloseTo(-82.5);
+    // 放大后纵向有富余，可向上/下裁切
+    const fit = computeFraming(3300, 160, { focus: [0.5, 0] });
+    expect(fit.shiftX).toBe(0);
+    expect(fit.shiftY).toBe(80);
+  });
+});
+
+describe("prepareLayer", () => {
+  it("scales only the translation components of the base matrix", () => {
+    const prepared = prepareLayer(layer(), 2);
+    expect(prepared._baseMatrix).toEqual([1, 0, 0, 1, 20, 40]);
+    expect(prepared._baseTransform).toBe("matrix(1, 0, 0, 1, 20, 40)");
+    expect(prepared.transform).toEqual([1, 0, 0, 1, 10, 20]);
+  });
+
+  it("adds the framing shift after scaling", () => {
+    const prepared = prepareLayer(layer(), 2, -5, 3);
+    expect(prepared._baseMatrix).toEqual([1, 0, 0, 1, 15, 43]);
+  });
+
+  it("defaults the vertical factor to 0", () => {
+    const prepared = prepareLayer(layer({ a: 0.3 }), 1);
+    expect(prepared._aCompensated).toBe(0.3);
+    expect(prepared._gCompensated).toBe(0);
+  });
+});
+
+describe("interpolateOpacity", () => {
+  const opacity = [0.5, 0, 1];
+
+  it("returns the default opacity at rest", () => {
+    expect(interpolateOpacity(opacity, 0, 1000)).toBe(0.5);
+  });
+
+  it("moves towards the side opacity and saturates at half the viewport", () => {
+    expect(interpolateOpacity(opacity, -250, 1000)).toBe(0.25);
+    expect(interpolateOpacity(opacity, 250, 1000)).toBe(0.75);
+    expect(interpolateOpacity(opacity, 2000, 1000)).toBe(1);
+    expect(interpolateOpacity(opacity, -2000, 1000)).toBe(0);
+  });
+
+  it("rejects malformed opacity arrays", () => {
+    expect(() => interpolateOpacity([1, 1], 0, 1000)).toThrow(
+      /expected 3, got 2/,
+    );
+  });
+});
+
+describe("computeLayerFrame", () => {
+  it("leaves the layer at its base matrix without offset", () => {
+    const frame = computeLayerFrame(prepareLayer(layer(), 1), 0, VIEWPORT);
+    expect(frame.translateX).toBe(0);
+    expect(frame.translateY).toBe(0);
+    expect(frame.scale).toBe(1);
+    expect(frame.rotate).toBeNull();
+    expect(frame.opacity).toBeNull();
+    expect(frame.transform).toBe(
+      "matrix(1, 0, 0, 1, 10, 20) matrix(1, 0, 0, 1, 0, 0)",
+    );
+  });
+
+  it("applies a/g/f/deg proportionally to the pointer offset", () => {
+    const item = prepareLayer(
+      layer({ a: 0.5, g: 0.1, f: 0.001, deg: 0.01 }),
+      1,
+    );
+    const frame = computeLayerFrame(item, 100, VIEWPORT);
+    expect(frame.translateX).toBe(50);
+    expect(frame.translateY).toBe(10);
+    expect(frame.scale).toBeCloseTo(1.1);
+    expect(frame.rotate).toBeCloseTo((1 * 180) / Math.PI);
+    expect(frame.transform).toMatch(/ rotate\([\d.]+deg\)$/);
+  });
+
+  it("appends keyframe animation after the parallax transform", () => {
+    const item = prepareLayer(
+      layer({
+        opacity: [0.5, 0.5, 0.5],
+        keyframes: {
+          duration: 1000,
+          tracks: {
+            y: [
+              [0, 0],
+              [1, -20],
+            ],
+            opacity: [
+              [0, 1],
+              [1, 0],
+            ],
+          },
+        },
+      }),
+      1,
+    );
+    const frame = computeLayerFrame(item, 0, { ...VIEWPORT, time: 500 });
+    expect(frame.animation?.translateY).toBe(-10);
+    expect(frame.opacity).toBe(0.25);
+    expect(frame.transform).toBe(
+      "matrix(1, 0, 0, 1, 10, 20) matrix(1, 0, 0, 1, 0, 0) translate(0px, -10px) rotate(0deg) scale(1)",
+    );
+    // 没有时钟（例如缩略图）时保持静止
+    expect(computeLayerFrame(item, 0, VIEWPORT).animation).toBeNull();
+  });
+
+  it("selects the sprite frame from the clock or the pointer", () => {
+    const sprite = { frames: 5, frameWidth: 100, frameHeight: 50, fps: 10 };
+    const timed = prepareLayer(layer({ type: "sprite", sprite }), 1);
+    expect(computeLayerFrame(timed, 0, VIEWPORT).spriteFrame).toBe(0);
+    expect(
+      computeLayerFrame(timed, 0, { ...VIEWPORT, time: 300 }).spriteFrame,
+    ).toBe(3);
+
+    const pointer = prepareLayer(
+      layer({ type: "sprite", sprite: { ...sprite, drive: "pointer" } }),
+      1,
+    );
+    expect(computeLayerFrame(pointer, 500, VIEWPORT).spriteFrame).toBe(4);
+    // 回正时随偏移一起回到中间帧
+    expect(
+      computeLayerFrame(pointer, 500, { ...VIEWPORT, progress: 1 }).spriteFrame,
+    ).toBe(2);
+    expect(computeLayerFrame(layer(), 0, VIEWPORT).spriteFrame).toBeNull();
+  });
+
+  it("does not scale the parallax factors by the compensate ratio", () => {
+    const frame = computeLayerFrame(prepareLayer(layer(), 2), 100, VIEWPORT);
+    expect(frame.translateX).toBe(50);
+    expect(frame.transform.startsWith("matrix(1, 0, 0, 1, 20, 40)")).toBe(true);
+  });
+
+  it("returns to rest as homing progress reaches 1", () => {
+    const item = prepareLayer(
+      layer({ a: 0.5, f: 0.001, deg: 0.01, opacity: [1, 0, 0] }),
+      1,
+    );
+    const start = computeLayerFrame(item, 200, { ...VIEWPORT, progress: 0 });
+    const half = computeLayerFrame(item, 200, { ...VIEWPORT, progress: 0.5 });
+    const end = computeLayerFrame(item, 200, { ...VIEWPORT, progress: 1 });
+
+    expect(start).toEqual(computeLayerFrame(item, 200, VIEWPORT));
+    expect(half.translateX).toBe(50);
+    expect(half.opacity).toBeCloseTo(0.8);
+    expect(end.translateX).toBe(0);
+    expect(end.scale).toBe(1);
+    expect(end.rotate).toBe(0);
+    expect(end.opacity).toBe(1);
+  });
+});
+
+describe("computeLayerFrame with vertical offset", () => {
+  it("ignores moveY for layers without vertical coefficients", () => {
+    const item = prepareLayer(
+      layer({ a: 0.5, g: 0.1, f: 0.001, deg: 0.01 }),
+      1,
+    );
+    expect(computeLayerFrame(item, 100, { ...VIEWPORT, moveY: 40 })).toEqual(
+      computeLayerFrame(item, 100, VIEWPORT),
+    );
+  });
+
+  it("adds ay/gy/fy/degy contributions from moveY", () => {
+    const item = prepareLayer(
+      layer({ a: 0.5, ay: 0.5, gy: 0.25, fy: 0.01, degy: 0.01 }),
+      1,
+    );
+    const frame = computeLayerFrame(item, 100, { ...VIEWPORT, moveY: 20 });
+    expect(frame.translateX).toBe(55);
+    expect(frame.translateY).toBe(10);
+    expect(frame.scale).toBeCloseTo(1.2);
+    expect(frame.rotate).toBeCloseTo((0.2 * 180) / Math.PI);
+  });
+
+  it("homes both axes together", () => {
+    const item = prepareLayer(layer({ a: 0.5, ay: 1 }), 1);
+    const half = computeLayerFrame(item, 100, {
+      ...VIEWPORT,
+      moveY: 20,
+      progress: 0.5,
+    });
+    expect(half.translateX).toBe(25);
+    expect(half.translateY).toBe(10);
+  });
+});
+
+describe("computeFrame", () => {
+  it("computes one frame per layer in order", () => {
+    const layers = [layer({ a: 1 }), layer({ a: -1 })].map((item) =>
+      prepareLayer(item, 1),
+    );
+    const frames = computeFrame(layers, 30, VIEWPORT);
+    expect(frames.map((frame) => frame.translateX)).toEqual([30, -30]);
+  });
+});
+
+describe("computeParticleOffset", () => {
+  it("does not move particle layers without a/g", () => {
+    expect(computeParticleOffset({}, 100, VIEWPORT)).toEqual({
+      translateX: 0,
+      translateY: 0,
+    });
+  });
+
+  it("translates by a/g and homes back with progress", () => {
+    const item = { a: 0.2, g: -0.1 };
+    expect(computeParticleOffset(item, 100, VIEWPORT)).toEqual({
+      translateX: 20,
+      translateY: -10,
+    });
+    const half = computeParticleOffset(item, 100, {
+      ...VIEWPORT,
+      progress: 0.5,
+    });
+    expect(half.translateX).toBe(10);
+    expect(half.translateY).toBe(-5);
+  });
+
+  it("adds the vertical offset through ay/gy", () => {
+    const item = { a: 0.2, ay: 0.5, gy: 0.1 };
+    expect(
+      computeParticleOffset(item, 100, { ...VIEWPORT, moveY: 40 }),
+    ).toEqual({ translateX: 24, translateY: 20 });
+    expect(
+      computeParticleOffset({ a: 0.2 }, 100, { ...VIEWPORT, moveY: 40 }),
+    ).toEqual({ translateX: 20, translateY: 0 });
+    const half = computeParticleOffset(item, 0, {
+      ...VIEWPORT,
+      moveY: 40,
+      progress: 0.5,
+    });
+    expect(half.translateY).toBe(10);
+  });
+});
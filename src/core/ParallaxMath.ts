@@ -0,0 +1,268 @@
+/**
+ * 视差数学模块
+ * 不依赖 DOM 的纯函数：根据图层配置与指针偏移计算每个图层的矩阵与透明度，
+ * 由 BannerEngine 负责把结果写入 style，也可在 Node 环境下直接测试。
+ */
+
+import type { ParallaxLayer } from "./BannerEngine";
+import { type KeyframePose, sampleKeyframes } from "./Keyframes";
+import type { ParticleLayerConfig } from "./ParticleSystem";
+import { spriteFrameAt, spriteFrameForOffset } from "./Sprite";
+
+const DEG2RAD = 180 / Math.PI;
+
+export interface LayerFrame {
+  translateX: number; // 相对基础矩阵的水平位移
+  translateY: number; // 相对基础矩阵的垂直位移
+  scale: number;
+  rotate: number | null; // 旋转角度（deg），未配置 deg 时为 null
+  transform: string; // 可直接写入 style.transform 的字符串
+  opacity: number | null; // 未配置 opacity 时为 null，表示不修改
+  animation: KeyframePose | null; // 关键帧动画的附加变换，未配置 keyframes 或未传入时钟时为 null
+  spriteFrame: number | null; // 序列帧图层当前显示的帧，其他图层为 null
+}
+
+// 粒子层只参与平移视差
+export interface ParticleOffset {
+  translateX: number;
+  translateY: number;
+}
+
+/**
+ * Banner 级取景参数：容器与设计稿比例不同时，围绕主体缩放与裁切
+ */
+export interface BannerFraming {
+  focus?: [number, number]; // 主体位置，按设计稿宽高的比例表示，默认 [0.5, 0.5] 即画面中心
+  safeArea?: [number, number]; // 以主体为中心、必须完整显示的区域宽高（设计稿 px），默认 DEFAULT_SAFE_AREA
+}
+
+export interface FramingFit {
+  scale: number; // 图层尺寸与基础矩阵平移的缩放系数
+  shiftX: number; // 为使主体居中整体附加的平移（px）
+  shiftY: number;
+}
+
+// 设计稿尺寸：B 站首页 Banner 的宽度与高度
+export const DESIGN_WIDTH = 1650;
+export const DESIGN_HEIGHT = 160;
+
+// 未配置安全区时默认保证完整显示的区域：画面中部约 1000px 宽、完整高度，
+// 桌面端常见宽度下保持原尺寸，手机等窄容器中整体缩小而不是只露出中间一截
+export const DEFAULT_SAFE_AREA: [number, number] = [1000, DESIGN_HEIGHT];
+
+export interface FrameOptions {
+  progress?: number; // 回正进度 0-1，缺省表示跟随指针
+  viewportWidth: number; // 视口宽度，用于计算透明度插值比例
+  moveY?: number; // 垂直指针偏移（回正时为回正起点），默认 0
+  time?: number; // 动画时钟（ms），缺省时不叠加关键帧动画，序列帧停在首帧
+}
+
+/**
+ * 线性插值
+ */
+export function lerp(start: number, end: number, amt: number): number {
+  return (1 - amt) * start + amt * end;
+}
+
+// 回正缓动的默认曲线，定义在缓动函数库中，此处保留导出
+export { easeOutQuart } from "./MotionPhysics";
+
+/**
+ * 计算宽屏补偿系数：视口宽于设计宽度时按比例放大
+ * @param {number} viewportWidth - 视口宽度
+ * @param {number} baseWidth - 设计稿宽度
+ */
+export function calcCompensate(
+  viewportWidth: number,
+  baseWidth: number,
+): number {
+  return viewportWidth > baseWidth ? viewportWidth / baseWidth : 1;
+}
+
+/**
+ * 按容器尺寸计算取景：容器宽于设计稿时放大铺满（同 calcCompensate）；
+ * 窄于设计稿时，若放不下安全区（缺省为 DEFAULT_SAFE_AREA）则缩小到恰好放下；
+ * 再平移使主体尽量居中，但不会让设计稿边缘进入容器。
+ * @param {number} containerWidth - 容器宽度
+ * @param {number} containerHeight - 容器高度
+ * @param {BannerFraming} [framing] - Banner 级取景参数
+ */
+export function computeFraming(
+  containerWidth: number,
+  containerHeight: number,
+  framing: BannerFraming = {},
+): FramingFit {
+  let scale = calcCompensate(containerWidth, DESIGN_WIDTH);
+  const [safeWidth, safeHeight] = framing.safeArea || DEFAULT_SAFE_AREA;
+  if (scale === 1 && safeWidth > 0 && safeHeight > 0) {
+    scale = Math.min(
+      1,
+      containerWidth / safeWidth,
+      containerHeight / safeHeight,
+    );
+  }
+
+  const [focusX, focusY] = framing.focus || [0.5, 0.5];
+  const shift = (focus: number, designSize: number, containerSize: number) => {
+    const size = designSize * scale;
+    const limit = Math.max(0, (size - containerSize) / 2);
+    return Math.max(-limit, Math.min(limit, (0.5 - focus) * size));
+  };
+  return {
+    scale,
+    shiftX: shift(focusX, DESIGN_WIDTH, containerWidth),
+    shiftY: shift(focusY, DESIGN_HEIGHT, containerHeight),
+  };
+}
+
+/**
+ * 预处理图层：按补偿系数缩放平移分量，叠加取景平移，并预先组装基础矩阵字符串
+ * @param {number} [shiftX] - 取景附加的水平平移（px）
+ * @param {number} [shiftY] - 取景附加的垂直平移（px）
+ */
+export function prepareLayer(
+  item: ParallaxLayer,
+  compensate: number,
+  shiftX: number = 0,
+  shiftY: number = 0,
+): ParallaxLayer {
+  const baseTransform = [...item.transform];
+  baseTransform[4] = baseTransform[4] * compensate + shiftX;
+  baseTransform[5] = baseTransform[5] * compensate + shiftY;
+
+  // 预先组装最内层的基础矩阵变换字符串备用
+  const _baseTransform = `matrix(${baseTransform[0]}, ${baseTransform[1]}, ${baseTransform[2]}, ${baseTransform[3]}, ${baseTransform[4]}, ${baseTransform[5]})`;
+
+  return {
+    ...item,
+    _baseMatrix: baseTransform,
+    _baseTransform,
+    _aCompensated: item.a,
+    _gCompensated: item.g || 0,
+  };
+}
+
+/**
+ * 按左右偏移在默认透明度与两侧透明度之间插值
+ * @param {number[]} opacity - [默认, 左移时, 右移时]
+ */
+export function interpolateOpacity(
+  opacity: number[],
+  moveX: number,
+  viewportWidth: number,
+): number {
+  if (opacity.length !== 3) {
+    throw new Error(
+      `[BannerEngine] Invalid opacity length: expected 3, got ${opacity.length}`,
+    );
+  }
+  const [opDef, opLeft, opRight] = opacity;
+  const ratio = Math.min(Math.abs((moveX / viewportWidth) * 2), 1);
+  return moveX < 0 ? lerp(opDef, opLeft, ratio) : lerp(opDef, opRight, ratio);
+}
+
+/**
+ * 计算单个图层在给定偏移下的帧数据。
+ * 水平偏移驱动 a/g/f/deg/opacity，垂直偏移驱动 ay/gy/fy/degy，两者叠加；
+ * 未配置垂直系数的图层结果与只有水平偏移时完全一致。
+ * @param {ParallaxLayer} item - 经 prepareLayer 处理后的图层
+ * @param {number} moveX - 水平指针偏移（回正时为回正起点）
+ */
+export function computeLayerFrame(
+  item: ParallaxLayer,
+  moveX: number,
+  options: FrameOptions,
+): LayerFrame {
+  const { progress } = options;
+  const moveY = options.moveY || 0;
+  const isHoming = typeof progress === "number";
+  const currentMoveX = isHoming ? lerp(moveX, 0, progress) : moveX;
+  const currentMoveY = isHoming ? lerp(moveY, 0, progress) : moveY;
+
+  let translateX = currentMoveX * (item._aCompensated || 0);
+  let translateY = currentMoveX * (item._gCompensated || 0);
+  let scale = item.f ? item.f * currentMoveX + 1 : 1;
+  if (item.ay) translateY += currentMoveY * item.ay;
+  if (item.gy) translateX += currentMoveY * item.gy;
+  if (item.fy) scale += item.fy * currentMoveY;
+
+  let transform = `${item._baseTransform} matrix(${scale}, 0, 0, ${scale}, ${translateX}, ${translateY})`;
+
+  let rotate: number | null = null;
+  if (item.deg || item.degy) {
+    const targetDeg = (item.deg || 0) * moveX + (item.degy || 0) * moveY;
+    const currentDeg = isHoming ? lerp(targetDeg, 0, progress) : targetDeg;
+    rotate = currentDeg * DEG2RAD;
+    transform += ` rotate(${rotate}deg)`;
+  }
+
+  let opacity = item.opacity
+    ? interpolateOpacity(item.opacity, currentMoveX, options.viewportWidth)
+    : null;
+
+  // 关键帧动画在视差变换之后、以图层自身为参照叠加，透明度与视差透明度相乘
+  let animation: KeyframePose | null = null;
+  if (item.keyframes && typeof options.time === "number") {
+    animation = sampleKeyframes(item.keyframes, options.time);
+    transform += ` translate(${animation.translateX}px, ${animation.translateY}px) rotate(${animation.rotate}deg) scale(${animation.scale})`;
+    if (animation.opacity !== null) {
+      opacity = (opacity ?? item.opacity?.[0] ?? 1) * animation.opacity;
+    }
+  }
+
+  // 序列帧按时钟播放，或与透明度一样跟随当前水平偏移
+  let spriteFrame: number | null = null;
+  if (item.type === "sprite") {
+    const { sprite } = item;
+    if (sprite.drive === "pointer") {
+      spriteFrame = spriteFrameForOffset(
+        sprite,
+        currentMoveX,
+        options.viewportWidth,
+      );
+    } else {
+      spriteFrame = spriteFrameAt(sprite, options.time ?? 0);
+    }
+  }
+
+  return {
+    translateX,
+    translateY,
+    scale,
+    rotate,
+    transform,
+    opacity,
+    animation,
+    spriteFrame,
+  };
+}
+
+/**
+ * 计算所有图层的帧数据
+ */
+export function computeFrame(
+  layers: ParallaxLayer[],
+  moveX: number,
+  options: FrameOptions,
+): LayerFrame[] {
+  return layers.map((item) => computeLayerFrame(item, moveX, options));
+}
+
+/**
+ * 计算粒子层在给定偏移下的平移量，a/g、ay/gy 含义与视差图层一致，未配置时不移动
+ */
+export function computeParticleOffset(
+  item: Pick<ParticleLayerConfig, "a" | "g" | "ay" | "gy">,
+  moveX: number,
+  options: FrameOptions,
+): ParticleOffset {
+  const { progress } = options;
+  const moveY = options.moveY || 0;
+  const isHoming = typeof progress === "number";
+  const currentMoveX = isHoming ? lerp(moveX, 0, progress) : moveX;
+  const currentMoveY = isHoming ? lerp(moveY, 0, progress) : moveY;
+  return {
+    translateX: currentMoveX * (item.a || 0) + currentMoveY * (item.gy || 0),
+    translateY: currentMoveX * (item.g || 0) + currentMoveY * (item.ay || 0),
+  };
+}
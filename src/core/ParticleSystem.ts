@@ -1,8 +1,30 @@
 /**
  * Canvas 粒子系统
- * 独立运行，不与视差引擎共享 RAF 循环，通过 dispose() 安全停止。
+ * 独立运行，不与视差引擎共享 RAF 循环，通过 dispose() 安全停止，
+ * pause()/resume() 冻结与恢复动画（冻结时保留当前画面）。
+ * 也可只调用 load() 初始化，由外部渲染器逐帧调用 step()/draw() 合成到同一画布。
+ *
+ * 速度类参数均以 px/frame 为单位（按 60fps 计），时长类参数以秒为单位。
  */
 
+// fall：下落；rise：上升；float：不受重力，仅按 angleRange 倾斜漂移并随噪声游走
+export type ParticleMode = "fall" | "rise" | "float";
+
+// 指针交互：repel 推开 / attract 吸引指针附近的粒子；gust 快速划过时吹动粒子；burst 点击时喷出粒子
+export interface ParticleInteraction {
+  mode?: "repel" | "attract"; // 不填则不受指针位置影响
+  radius?: number; // 作用半径（px），默认 120
+  strength?: number; // 指针正下方的最大位移（px/frame），随距离线性衰减，默认 3
+  gust?: number; // 指针快速移动时，每移动 1px 给粒子附加的水平速度（px/frame），默认 0 即关闭
+  burst?: number; // 每次点击喷出的粒子数，默认 0 即关闭
+}
+
+// 生成区域，以画布宽高的比例（0-1）表示
+export interface ParticleSpawnRegion {
+  x: [number, number];
+  y: [number, number];
+}
+
 export interface ParticleLayerConfig {
   type: "particle";
   srcs: string[];
@@ -11,13 +33,25 @@ export interface ParticleLayerConfig {
   angleRange: [number, number];
   sizeRange: [number, number];
   opacityRange: [number, number];
+  mode?: ParticleMode; // 默认 fall
+  wander?: number; // 噪声游走的最大速度（px/frame），float 默认 0.5，其余默认 0
+  lifeRange?: [number, number]; // 生命周期（秒），到期后淡出并重新生成；不填则一直存在
+  fade?: number; // 淡入/淡出时长（秒），默认为生命周期的 20%
+  spawn?: ParticleSpawnRegion; // 生成区域，默认从画布外侧（fall/rise）或整个画布（float）出现
+  wind?: number; // 指针移到最左/右侧时附加的水平速度（px/frame），方向与指针相同
+  a?: number; // 视差水平系数，含义同视差图层，默认 0 即不随指针移动
+  g?: number; // 视差垂直系数，默认 0
+  ay?: number; // 指针上下移动时的纵向位移系数，默认 0
+  gy?: number; // 指针上下移动时的横向位移系数，默认 0
+  inertia?: number; // 惯性倍率，开启弹簧跟随时生效，默认 1
+  interaction?: ParticleInteraction;
 }
 
 interface Particle {
   image: HTMLImageElement;
   x: number;
   y: number;
-  speed: number;
+  speed: number; // 垂直速度 px/frame，方向由 mode 决定
   drift: number; // 水平漂移速度 px/frame
   scale: number;
   opacity: number;
@@ -25,12 +59,42 @@ interface Particle {
   rotationSpeed: number;
   width: number;
   height: number;
+  age: number; // 已存在的帧数
+  life: number; // 生命周期（帧），Infinity 表示不过期
+  seed: number; // 噪声采样偏移，使各粒子的游走轨迹互不相同
+  vx: number; // 阵风与喷发带来的附加速度（px/frame），逐帧衰减
+  vy: number;
+  transient: boolean; // 点击喷出的粒子，到期后移除而不是重新生成
 }
 
+const FRAMES_PER_SECOND = 60;
+const NOISE_FREQUENCY = 0.01; // 噪声随时间的采样频率，越小游走越平缓
+const WIND_SMOOTHING = 0.05; // 风力每帧向目标值靠近的比例
+const IMPULSE_DECAY = 0.94; // 附加速度每帧保留的比例
+const GUST_SPEED = 1; // 指针速度超过该值（px/ms）才视为阵风
+const BURST_SPEED = 4; // 喷出粒子的最大初速度（px/frame）
+const BURST_LIFE = 1.2; // 喷出粒子的存在时长（秒）
+const MAX_TRANSIENT = 200; // 同时存在的喷出粒子上限
+
 function rand(min: number, max: number): number {
   return min + Math.random() * (max - min);
 }
 
+function hash(n: number): number {
+  const s = Math.sin(n * 127.1) * 43758.5453;
+  return s - Math.floor(s);
+}
+
+/**
+ * 一维值噪声，返回 [-1, 1] 之间平滑变化的值
+ */
+function noise(t: number): number {
+  const i = Math.floor(t);
+  const f = t - i;
+  const u = f * f * (3 - 2 * f);
+  return (hash(i) * (1 - u) + hash(i + 1) * u) * 2 - 1;
+}
+
 export default class ParticleSystem {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -39,6 +103,11 @@ export default class ParticleSystem {
   private images: HTMLImageElement[] = [];
   private rafId: number = 0;
   private disposed: boolean = false;
+  private paused: boolean = false;
+  private windTarget: number = 0; // 指针偏移比例 -1~1
+  private windCurrent: number = 0;
+  private pointer: { x: number; y: number } | null = null; // 画布坐标
+  private pointerTime: number = 0;
 
   constructor(canvas: HTMLCanvasElement, config: ParticleLayerConfig) {
     this.canvas = canvas;
@@ -56,10 +125,140 @@ export default class ParticleSystem {
    * 异步预加载图片，加载完成后自动开始动画
    */
   public async start(): Promise<void> {
+    await this.load();
+    if (this.disposed) return;
+    this._tick();
+  }
+
+  /**
+   * 预加载图片并初始化粒子，不启动内部动画循环
+   */
+  public async load(): Promise<void> {
     await this._loadImages();
     if (this.disposed) return;
     this._initParticles();
-    this._tick();
+  }
+
+  /**
+   * 推进一帧：更新所有粒子的位置、旋转与生命周期
+   */
+  public step(): void {
+    const { width, height } = this.canvas;
+    const mode = this.config.mode || "fall";
+    const wander = this.config.wander ?? (mode === "float" ? 0.5 : 0);
+    this.windCurrent += (this.windTarget - this.windCurrent) * WIND_SMOOTHING;
+    const wind = (this.config.wind || 0) * this.windCurrent;
+    const direction = mode === "fall" ? 1 : mode === "rise" ? -1 : 0;
+    let expired = false;
+
+    for (const p of this.particles) {
+      p.age++;
+      p.x += p.drift + wind + p.vx;
+      p.y += p.speed * direction + p.vy;
+      p.vx *= IMPULSE_DECAY;
+      p.vy *= IMPULSE_DECAY;
+      if (wander) {
+        const t = p.seed + p.age * NOISE_FREQUENCY;
+        p.x += noise(t) * wander;
+        p.y += noise(t + 100) * wander;
+      }
+      this._applyPointerForce(p);
+      p.rotation += p.rotationSpeed;
+
+      // 生命周期结束或沿运动方向离开画布则重新生成
+      if (
+        p.age >= p.life ||
+        (direction > 0 && p.y > height + p.height) ||
+        (direction < 0 && p.y < -p.height)
+      ) {
+        if (p.transient) {
+          p.age = p.life;
+          expired = true;
+        } else {
+          this._spawn(p, false);
+        }
+        continue;
+      }
+      // 超出左右边界则从另一侧回来，float 模式上下同理
+      if (p.x > width + p.width) p.x = -p.width;
+      else if (p.x < -p.width) p.x = width;
+      if (direction === 0) {
+        if (p.y > height + p.height) p.y = -p.height;
+        else if (p.y < -p.height) p.y = height;
+      }
+    }
+
+    if (expired) {
+      this.particles = this.particles.filter(
+        (p) => !p.transient || p.age < p.life,
+      );
+    }
+  }
+
+  /**
+   * 设置指针偏移以驱动风力（未配置 wind 时无效果）
+   * @param {number} ratio - 指针相对中心的偏移比例，-1 为最左侧，1 为最右侧
+   */
+  public setWind(ratio: number): void {
+    this.windTarget = Math.max(-1, Math.min(1, ratio));
+  }
+
+  /**
+   * 同步指针位置，用于推开/吸引粒子；快速移动时按 gust 吹动所有粒子
+   * @param {{x: number, y: number} | null} point - 画布坐标，指针离开时传 null
+   */
+  public setPointer(point: { x: number; y: number } | null): void {
+    const now = performance.now();
+    const gust = this.config.interaction?.gust;
+    if (gust && point && this.pointer) {
+      const dx = point.x - this.pointer.x;
+      const elapsed = now - this.pointerTime;
+      if (elapsed > 0 && Math.abs(dx) / elapsed > GUST_SPEED) {
+        for (const p of this.particles) p.vx += dx * gust;
+      }
+    }
+    this.pointer = point;
+    this.pointerTime = now;
+  }
+
+  /**
+   * 在指定位置喷出一簇粒子（未配置 burst 时无效果）
+   * @param {number} x - 画布坐标
+   * @param {number} y - 画布坐标
+   */
+  public burst(x: number, y: number): void {
+    const count = Math.min(
+      this.config.interaction?.burst || 0,
+      MAX_TRANSIENT - this.particles.filter((p) => p.transient).length,
+    );
+    if (this.images.length === 0) return;
+    for (let i = 0; i < count; i++) {
+      const p = this._createParticle();
+      const angle = rand(0, Math.PI * 2);
+      const speed = rand(0.3, 1) * BURST_SPEED;
+      p.x = x - p.width / 2;
+      p.y = y - p.height / 2;
+      p.vx = Math.cos(angle) * speed;
+      p.vy = Math.sin(angle) * speed;
+      p.life = BURST_LIFE * FRAMES_PER_SECOND;
+      p.transient = true;
+      this.particles.push(p);
+    }
+  }
+
+  /**
+   * 绘制当前帧（不清空画布）
+   * @param {CanvasRenderingContext2D} [ctx] - 目标上下文，默认为自身画布
+   */
+  public draw(ctx: CanvasRenderingContext2D = this.ctx): void {
+    for (const p of this.particles) {
+      ctx.save();
+      ctx.globalAlpha = p.opacity * this._fadeFactor(p);
+      ctx.translate(p.x + p.width / 2, p.y + p.height / 2);
+      ctx.rotate(p.rotation);
+      ctx.drawImage(p.image, -p.width / 2, -p.height / 2, p.width, p.height);
+      ctx.restore();
+    }
   }
 
   /**
@@ -76,6 +275,28 @@ export default class ParticleSystem {
     this.images = [];
   }
 
+  /**
+   * 冻结动画，画面停留在当前帧
+   */
+  public pause(): void {
+    this.paused = true;
+    if (this.rafId) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = 0;
+    }
+  }
+
+  /**
+   * 恢复动画；若图片尚未加载完成，则由 start() 在加载后自动开始
+   */
+  public resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    if (!this.disposed && this.particles.length > 0 && !this.rafId) {
+      this._tick();
+    }
+  }
+
   /**
    * 同步 canvas 尺寸到容器宽高（resize 时由引擎调用）
    */
@@ -102,71 +323,120 @@ export default class ParticleSystem {
   }
 
   private _initParticles(): void {
-    const { count, speedRange, angleRange, sizeRange, opacityRange } =
-      this.config;
-    const w = this.canvas.width;
-    const h = this.canvas.height;
-
-    this.particles = Array.from({ length: count }, () => {
-      const img = this.images[Math.floor(Math.random() * this.images.length)];
-      const scale = rand(sizeRange[0], sizeRange[1]);
-      const angleDeg = rand(angleRange[0], angleRange[1]);
-      const speed = rand(speedRange[0], speedRange[1]);
-      // 将角度转换成 x/y 分量的速度比例
-      const drift = speed * Math.tan((angleDeg * Math.PI) / 180);
-
-      return {
-        image: img,
-        x: rand(0, w),
-        y: rand(-h, 0), // 初始分散在视口上方，让落点时机错开
-        speed,
-        drift,
-        scale,
-        opacity: rand(opacityRange[0], opacityRange[1]),
-        rotation: rand(0, Math.PI * 2),
-        rotationSpeed: rand(-0.02, 0.02),
-        width: img.naturalWidth * scale,
-        height: img.naturalHeight * scale,
-      } as Particle;
+    this.particles = Array.from({ length: this.config.count }, () => {
+      const p = this._createParticle();
+      this._spawn(p, true);
+      return p;
     });
   }
 
-  private _tick = (): void => {
-    if (this.disposed) return;
+  /**
+   * 按配置的取值区间随机生成一个粒子（位置与生命周期由调用方设置）
+   */
+  private _createParticle(): Particle {
+    const { speedRange, angleRange, sizeRange, opacityRange } = this.config;
+    const img = this.images[Math.floor(Math.random() * this.images.length)];
+    const scale = rand(sizeRange[0], sizeRange[1]);
+    const angleDeg = rand(angleRange[0], angleRange[1]);
+    const speed = rand(speedRange[0], speedRange[1]);
+    // 将角度转换成 x/y 分量的速度比例
+    const drift = speed * Math.tan((angleDeg * Math.PI) / 180);
 
-    const { width, height } = this.canvas;
-    this.ctx.clearRect(0, 0, width, height);
+    return {
+      image: img,
+      x: 0,
+      y: 0,
+      speed,
+      drift,
+      scale,
+      opacity: rand(opacityRange[0], opacityRange[1]),
+      rotation: rand(0, Math.PI * 2),
+      rotationSpeed: rand(-0.02, 0.02),
+      width: img.naturalWidth * scale,
+      height: img.naturalHeight * scale,
+      age: 0,
+      life: Infinity,
+      seed: rand(0, 1000),
+      vx: 0,
+      vy: 0,
+      transient: false,
+    };
+  }
 
-    for (const p of this.particles) {
-      // 更新位置
-      p.y += p.speed;
-      p.x += p.drift;
-      p.rotation += p.rotationSpeed;
+  /**
+   * 指针附近的粒子沿连线方向被推开或吸引，力度随距离线性衰减
+   */
+  private _applyPointerForce(p: Particle): void {
+    const interaction = this.config.interaction;
+    if (!this.pointer || !interaction?.mode) return;
+    const radius = interaction.radius ?? 120;
+    const dx = p.x + p.width / 2 - this.pointer.x;
+    const dy = p.y + p.height / 2 - this.pointer.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0 || distance >= radius) return;
 
-      // 超出底部则在顶部随机位置复现
-      if (p.y > height + p.height) {
-        p.y = -p.height;
-        p.x = rand(0, width);
-      }
-      // 超出左右边界则反弹回来
-      if (p.x > width + p.width) p.x = -p.width;
-      else if (p.x < -p.width) p.x = width;
+    let force = (interaction.strength ?? 3) * (1 - distance / radius);
+    // 吸引时不越过指针位置，避免粒子来回抖动
+    if (interaction.mode === "attract") force = -Math.min(force, distance);
+    p.x += (dx / distance) * force;
+    p.y += (dy / distance) * force;
+  }
 
-      // 绘制
-      this.ctx.save();
-      this.ctx.globalAlpha = p.opacity;
-      this.ctx.translate(p.x + p.width / 2, p.y + p.height / 2);
-      this.ctx.rotate(p.rotation);
-      this.ctx.drawImage(
-        p.image,
-        -p.width / 2,
-        -p.height / 2,
-        p.width,
-        p.height,
-      );
-      this.ctx.restore();
+  /**
+   * 在生成区域内（重新）放置粒子并重置生命周期
+   * @param {boolean} initial - 是否为首次生成，首次生成时错开位置与年龄，避免同时出现
+   */
+  private _spawn(p: Particle, initial: boolean): void {
+    const { width: w, height: h } = this.canvas;
+    const { lifeRange, spawn } = this.config;
+    const mode = this.config.mode || "fall";
+
+    p.life = lifeRange
+      ? rand(lifeRange[0], lifeRange[1]) * FRAMES_PER_SECOND
+      : Infinity;
+    p.age = initial && lifeRange ? rand(0, p.life) : 0;
+
+    if (spawn) {
+      p.x = rand(spawn.x[0], spawn.x[1]) * w;
+      p.y = rand(spawn.y[0], spawn.y[1]) * h;
+    } else if (mode === "fall") {
+      p.x = rand(0, w);
+      // 初始分散在视口上方，让落点时机错开
+      p.y = initial ? rand(-h, 0) : -p.height;
+    } else if (mode === "rise") {
+      p.x = rand(0, w);
+      p.y = initial ? rand(h, h * 2) : h;
+    } else {
+      p.x = rand(0, w);
+      p.y = rand(0, h);
     }
+  }
+
+  /**
+   * 按年龄计算淡入淡出系数 0-1，没有生命周期的粒子始终为 1
+   */
+  private _fadeFactor(p: Particle): number {
+    if (!Number.isFinite(p.life)) return 1;
+    // 喷出的粒子只淡出
+    if (p.transient)
+      return Math.max(0, Math.min(1, (p.life - p.age) / (p.life * 0.5)));
+    const fade =
+      this.config.fade !== undefined
+        ? this.config.fade * FRAMES_PER_SECOND
+        : p.life * 0.2;
+    if (fade <= 0) return 1;
+    return Math.max(0, Math.min(1, p.age / fade, (p.life - p.age) / fade));
+  }
+
+  private _tick = (): void => {
+    if (this.disposed) return;
+
+    const { width, height } = this.canvas;
+    this.ctx.clearRect(0, 0, width, height);
+    this.step();
+    this.draw();
 
-    this.rafId = requestAnimationFrame(this._tick);
+    // 暂停时仍绘制一帧，保证冻结画面可见
+    this.rafId = this.paused ? 0 : requestAnimationFrame(this._tick);
   };
 }
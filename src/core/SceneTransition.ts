@@ -0,0 +1,69 @@
+/**
+ * 场景切换过渡
+ * 基于 Web Animations API，新旧场景同时存在于容器中，
+ * 动画结束（或被 finish() 提前结束）后由调用方回收旧场景。
+ */
+
+export type TransitionType = "none" | "fade" | "slide" | "wipe";
+
+export interface TransitionOptions {
+  type?: TransitionType;
+  duration?: number; // ms，默认 600
+  easing?: string; // CSS easing，默认 ease-in-out
+}
+
+interface TransitionFrames {
+  incoming: Keyframe[];
+  outgoing?: Keyframe[];
+}
+
+const FRAMES: Record<Exclude<TransitionType, "none">, TransitionFrames> = {
+  fade: {
+    incoming: [{ opacity: 0 }, { opacity: 1 }],
+  },
+  slide: {
+    incoming: [
+      { transform: "translateX(100%)" },
+      { transform: "translateX(0)" },
+    ],
+    outgoing: [
+      { transform: "translateX(0)" },
+      { transform: "translateX(-100%)" },
+    ],
+  },
+  wipe: {
+    incoming: [
+      { clipPath: "inset(0 100% 0 0)" },
+      { clipPath: "inset(0 0 0 0)" },
+    ],
+  },
+};
+
+/**
+ * 播放一次场景过渡
+ * @param {HTMLElement | null} outgoing - 旧场景根节点，首次渲染时为空
+ * @param {HTMLElement} incoming - 新场景根节点（需已挂载在旧场景之上）
+ * @returns {Animation[]} 正在运行的动画，可调用 finish() 立即结束
+ */
+export function playTransition(
+  outgoing: HTMLElement | null,
+  incoming: HTMLElement,
+  options: TransitionOptions = {},
+): Animation[] {
+  const type = options.type || "fade";
+  if (!outgoing || type === "none" || typeof incoming.animate !== "function") {
+    return [];
+  }
+
+  const frames = FRAMES[type];
+  const timing: KeyframeAnimationOptions = {
+    duration: options.duration ?? 600,
+    easing: options.easing || "ease-in-out",
+  };
+
+  const animations = [incoming.animate(frames.incoming, timing)];
+  if (frames.outgoing) {
+    animations.push(outgoing.animate(frames.outgoing, timing));
+  }
+  return animations;
+}
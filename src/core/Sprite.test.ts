@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  type SpriteConfig,
+  spriteFrameAt,
+  spriteFrameForOffset,
+  spriteGrid,
+} from "./Sprite";
+
+function sprite(overrides: Partial<SpriteConfig> = {}): SpriteConfig {
+  return { frames: 4, frameWidth: 100, frameHeight: 50, ...overrides };
+}
+
+describe("spriteGrid", () => {
+  it("defaults to a single row", () => {
+    expect(spriteGrid(sprite())).toEqual({ columns: 4, rows: 1 });
+  });
+
+  it("wraps frames into rows", () => {
+    expect(spriteGrid(sprite({ frames: 10, columns: 4 }))).toEqual({
+      columns: 4,
+      rows: 3,
+    });
+  });
+});
+
+describe("spriteFrameAt", () => {
+  it("advances at the configured fps and loops", () => {
+    const item = sprite({ fps: 10 });
+    expect(spriteFrameAt(item, 0)).toBe(0);
+    expect(spriteFrameAt(item, 250)).toBe(2);
+    expect(spriteFrameAt(item, 450)).toBe(0);
+  });
+
+  it("plays back and forth in pingpong mode", () => {
+    const item = sprite({ fps: 10, loop: "pingpong" });
+    const frames = [0, 100, 200, 300, 400, 500, 600].map((t) =>
+      spriteFrameAt(item, t),
+    );
+    expect(frames).toEqual([0, 1, 2, 3, 2, 1, 0]);
+  });
+
+  it("stops on the last frame without looping", () => {
+    expect(spriteFrameAt(sprite({ fps: 10, loop: false }), 5000)).toBe(3);
+  });
+});
+
+describe("spriteFrameForOffset", () => {
+  it("maps the pointer offset from the first to the last frame", () => {
+    const item = sprite({ frames: 5 });
+    expect(spriteFrameForOffset(item, -500, 1000)).toBe(0);
+    expect(spriteFrameForOffset(item, 0, 1000)).toBe(2);
+    expect(spriteFrameForOffset(item, 250, 1000)).toBe(3);
+    expect(spriteFrameForOffset(item, 900, 1000)).toBe(4);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * 序列帧（精灵图）图层
+ * 不依赖 DOM 的纯函数：根据时钟或指针偏移计算精灵图当前应显示的帧，
+ * 以及该帧在网格中的位置，DOM 与 canvas 两种渲染后端共用。
+ */
+
+export interface SpriteConfig {
+  frames: number; // 总帧数
+  frameWidth: number; // 单帧宽度（素材 px）
+  frameHeight: number; // 单帧高度（素材 px）
+  columns?: number; // 每行帧数，默认等于 frames（单行排列）
+  fps?: number; // 按时钟播放时的帧率，默认 12
+  loop?: boolean | "pingpong"; // 默认 true；pingpong 往返播放；false 播放一次后停在末帧
+  drive?: "time" | "pointer"; // 默认 time；pointer 时按水平偏移从首帧（最左）到末帧（最右）选帧
+}
+
+export interface SpriteGrid {
+  columns: number;
+  rows: number;
+}
+
+const DEFAULT_FPS = 12;
+
+/**
+ * 精灵图的行列数
+ */
+export function spriteGrid(sprite: SpriteConfig): SpriteGrid {
+  const frames = Math.max(1, sprite.frames);
+  const columns = Math.max(1, Math.min(sprite.columns || frames, frames));
+  return { columns, rows: Math.ceil(frames / columns) };
+}
+
+/**
+ * 按时钟计算当前帧
+ * @param {SpriteConfig} sprite - 精灵图配置
+ * @param {number} time - 时钟（ms）
+ * @returns {number} 帧序号，从 0 开始
+ */
+export function spriteFrameAt(sprite: SpriteConfig, time: number): number {
+  const { frames, loop = true } = sprite;
+  if (frames <= 1) return 0;
+  const step = Math.max(
+    0,
+    Math.floor((time / 1000) * (sprite.fps || DEFAULT_FPS)),
+  );
+  if (!loop) return Math.min(step, frames - 1);
+  if (loop === "pingpong") {
+    const period = (frames - 1) * 2;
+    const position = step % period;
+    return position < frames ? position : period - position;
+  }
+  return step % frames;
+}
+
+/**
+ * 按水平指针偏移计算当前帧：指针位于最左侧时为首帧，最右侧时为末帧，静止时为中间帧
+ * @param {SpriteConfig} sprite - 精灵图配置
+ * @param {number} moveX - 水平指针偏移
+ * @param {number} viewportWidth - 视口宽度，偏移达到一半宽度时到达端点
+ */
+export function spriteFrameForOffset(
+  sprite: SpriteConfig,
+  moveX: number,
+  viewportWidth: number,
+): number {
+  if (sprite.frames <= 1) return 0;
+  const ratio = Math.max(-1, Math.min(1, (moveX / viewportWidth) * 2));
+  return Math.round(((ratio + 1) / 2) * (sprite.frames - 1));
+}
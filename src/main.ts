@@ -1,53 +1,173 @@
 import "./styles/index.css";
 import BannerDataLoader from "./core/BannerDataLoader";
 import BannerEngine from "./core/BannerEngine";
+import BannerRouter from "./core/BannerRouter";
+import { collectTags } from "./core/BannerSearch";
+import BannerShowcase from "./core/BannerShowcase";
 import BannerTimeLine from "./ui/BannerTimeLine";
+import LayerEditor from "./ui/LayerEditor";
+import MotionToggle from "./ui/MotionToggle";
+import SearchPanel from "./ui/SearchPanel";
 import YearSelector from "./ui/YearSelector";
 
+const PERSIST_KEY = "last_banner_path";
+const params = new URLSearchParams(window.location.search);
+
 const loader = new BannerDataLoader();
-const engine = new BannerEngine("#app");
+// 触屏设备额外启用陀螺仪驱动
+const isCoarsePointer = window.matchMedia("(pointer: coarse)").matches;
+const engine = new BannerEngine("#app", {
+  input: isCoarsePointer ? "both" : "pointer",
+  preload: true,
+  // ?renderer=canvas 切换到单画布渲染后端，便于对比性能
+  renderer: params.get("renderer") === "canvas" ? "canvas" : "dom",
+});
 
-const PERSIST_KEY = "last_banner_path";
+const router = new BannerRouter();
 
 engine.start();
+new MotionToggle({ containerId: "motionToggle", engine });
+
+// 图层参数编辑器：?editor
+const editor = params.has("editor")
+  ? new LayerEditor({ containerId: "layerEditor", engine })
+  : null;
+
+if (isCoarsePointer) {
+  // iOS 需在用户手势中申请陀螺仪权限
+  document.addEventListener(
+    "pointerup",
+    () => engine.requestOrientationPermission(),
+    { once: true },
+  );
+}
 
+// 清单加载完成后即可渲染时间轴，变体数据在选中时按需加载
 loader
-  .load()
-  .then((data) => {
-    // 1. 获取持久化状态
-    const savedPath = localStorage.getItem(PERSIST_KEY) || "";
-    let initialYear = "";
-    if (savedPath) {
-      // 尝试寻找该路径对应的年份
-      const matched = data.find((item) =>
-        item.variants.some((v) => v.path === savedPath),
+  .loadManifest()
+  .then((entries) => {
+    // 寻找变体路径对应的年份，不存在时返回空字符串
+    const findYear = (path: string): string => {
+      const matched = entries.find((item) =>
+        item.variants.some((v) => v.path === path),
       );
-      if (matched) initialYear = matched.date.split("-")[0];
-    }
+      return matched ? matched.date.split("-")[0] : "";
+    };
+
+    // 1. 获取初始路径：URL 优先于持久化状态
+    const routePath = router.getPath();
+    let currentPath = findYear(routePath)
+      ? routePath
+      : localStorage.getItem(PERSIST_KEY) || "";
+    const initialYear = findYear(currentPath);
+
+    // 初始化及浏览器前进/后退期间只同步 URL，不新增历史记录
+    let restoring = true;
 
     const bannerTimeLine = new BannerTimeLine({
       containerId: "selectBox",
+      loadThumbnail: (variant) => loader.loadThumbnail(variant),
       onVariantSelect: (variant) => {
-        engine.updateData(variant.data);
+        currentPath = variant.path;
         localStorage.setItem(PERSIST_KEY, variant.path);
+        if (restoring) router.replace(variant.path);
+        else router.push(variant.path);
+
+        loader.loadVariant(variant.path).then((loaded) => {
+          bannerTimeLine.setVariantIssues(loaded.path, loaded.issues || []);
+          // 加载期间已切换到其他变体时丢弃结果
+          if (loaded.path !== currentPath) return;
+          editor?.setVariantPath(loaded.path);
+          engine.updateData(loaded.data);
+        });
+        loader.prefetchAround(variant.path);
+      },
+    });
+
+    // 渲染某一年的时间轴；autoSelect 为 false 时只同步高亮，不重新加载场景
+    const renderYear = (year: string, autoSelect: boolean = true) => {
+      const filteredData = entries.filter((item) => item.date.startsWith(year));
+      const targetPathForYear = currentPath.startsWith(year)
+        ? currentPath
+        : undefined;
+      bannerTimeLine.render(filteredData, targetPathForYear, { autoSelect });
+    };
+    let keepScene = false;
+
+    // 搜索结果跨年份展示，且不自动切换场景；清空条件后回到当前变体所在的年份
+    const searchPanel = new SearchPanel({
+      containerId: "searchBox",
+      entries,
+      tags: collectTags(entries),
+      loadVariant: (path) => loader.loadVariant(path),
+      onSearch: (results) => {
+        if (results) {
+          bannerTimeLine.render(results, currentPath, {
+            autoSelect: false,
+            emptyText: "没有匹配的 Banner",
+          });
+          return;
+        }
+        const year = findYear(currentPath) || yearSelector.getYear();
+        if (year === yearSelector.getYear()) {
+          renderYear(year, false);
+          return;
+        }
+        keepScene = true;
+        yearSelector.select(year);
+        keepScene = false;
       },
     });
 
     const yearSelector = new YearSelector({
       containerId: "yearBox",
       onYearChange: (year) => {
-        const filteredData = data.filter((item) => item.date.startsWith(year));
-        // 实时获取最新的持久化路径，确保组件联动逻辑正确
-        const currentSavedPath = localStorage.getItem(PERSIST_KEY) || "";
-        const targetPathForYear = currentSavedPath.startsWith(year)
-          ? currentSavedPath
-          : undefined;
-        bannerTimeLine.render(filteredData, targetPathForYear);
+        // 点击年份即退出搜索
+        searchPanel.clear();
+        renderYear(year, !keepScene);
       },
     });
 
-    const years = [...new Set(data.map((item) => item.date.split("-")[0]))];
+    const years = [...new Set(entries.map((item) => item.date.split("-")[0]))];
     // 如果没有找到对应的年份，则默认使用最后一年
     yearSelector.init(years, initialYear || years[years.length - 1]);
+    restoring = false;
+
+    // 以编程方式切换到指定变体，同步年份与时间轴高亮，不新增历史记录
+    const showPath = (path: string) => {
+      const year = findYear(path);
+      if (!year || path === currentPath) return;
+
+      restoring = true;
+      currentPath = path;
+      // 搜索结果中包含该变体时保持搜索视图，否则退出搜索回到对应年份
+      const searching = searchPanel.isActive();
+      if (!searching || !bannerTimeLine.select(path)) {
+        searchPanel.clear();
+        if (yearSelector.getYear() !== year) yearSelector.select(year);
+        else if (searching) renderYear(year);
+        else bannerTimeLine.select(path);
+      }
+      restoring = false;
+    };
+
+    router.listen(showPath);
+
+    // 展示模式：?showcase[&years=2023,2024][&shuffle][&duration=10][&sweep=0]
+    if (params.has("showcase")) {
+      const showcase = new BannerShowcase({
+        engine,
+        entries,
+        onSelect: showPath,
+        order: params.has("shuffle") ? "shuffle" : "chronological",
+        years: params.get("years")?.split(",").filter(Boolean),
+        duration: Number(params.get("duration")) * 1000 || undefined,
+        sweep: params.get("sweep") !== "0",
+      });
+      showcase.start(currentPath);
+      document.addEventListener("keydown", (e) => {
+        if (e.key === "Escape") showcase.stop();
+      });
+    }
   })
-  .catch((e) => console.error("Banner metadata loading failed", e));
+  .catch((e) => console.error("Banner manifest loading failed", e));
@@ -1,39 +1,56 @@
-import type { LoadedBannerData, LoadedVariant } from "../core/BannerDataLoader";
+import type { BannerEntry, VariantInfo } from "../core/BannerDataLoader";
+import { formatIssues, type ValidationIssue } from "../core/BannerSchema";
 
 export interface BannerTimeLineOptions {
   containerId?: string;
-  onVariantSelect?: (variant: LoadedVariant) => void;
+  onVariantSelect?: (variant: VariantInfo) => void;
+  loadThumbnail?: (variant: VariantInfo) => Promise<string>; // 提供时在条目与下拉菜单中显示预览图
+}
+
+export interface TimeLineRenderOptions {
+  autoSelect?: boolean; // 是否选中并通知初始变体，默认 true；为 false 时仅高亮 targetPath
+  emptyText?: string; // 没有条目时显示的提示
 }
 
 export default class BannerTimeLine {
   private container: HTMLElement | null;
   private _bodyDropdowns: HTMLDivElement[] = [];
-  private onVariantSelect?: (variant: LoadedVariant) => void;
-  private _itemDataMap: WeakMap<HTMLElement, LoadedBannerData> = new WeakMap();
+  private onVariantSelect?: (variant: VariantInfo) => void;
+  private _itemDataMap: WeakMap<HTMLElement, BannerEntry> = new WeakMap();
+  private _issues: Map<string, ValidationIssue[]> = new Map();
   private _activeDropdownTimer?: number;
+  private loadThumbnail?: (variant: VariantInfo) => Promise<string>;
+  private _thumbObserver: IntersectionObserver | null = null;
 
   private _boundHandleClick: (e: MouseEvent) => void;
   private _boundHandleMouseOver: (e: MouseEvent) => void;
   private _boundHandleMouseOut: (e: MouseEvent) => void;
   private _boundHandleWheel: (e: WheelEvent) => void;
+  private _boundHandleKeyDown: (e: KeyboardEvent) => void;
 
   constructor(options: BannerTimeLineOptions = {}) {
     this.container = document.getElementById(
       options.containerId || "selectBox",
     );
     this.onVariantSelect = options.onVariantSelect;
+    this.loadThumbnail = options.loadThumbnail;
 
     this._boundHandleClick = this._handleClick.bind(this);
     this._boundHandleMouseOver = this._handleMouseOver.bind(this);
     this._boundHandleMouseOut = this._handleMouseOut.bind(this);
     this._boundHandleWheel = this._handleWheel.bind(this);
+    this._boundHandleKeyDown = this._handleKeyDown.bind(this);
 
     this._setupScrollWheel();
     this._setupEventDelegation();
+    this._setupAria();
+    this._setupThumbObserver();
   }
 
   public destroy(): void {
     this._cleanupDropdowns();
+    this._thumbObserver?.disconnect();
+    this._thumbObserver = null;
     if (this.container) {
       this.container.removeEventListener("click", this._boundHandleClick);
       this.container.removeEventListener(
@@ -42,6 +59,7 @@ export default class BannerTimeLine {
       );
       this.container.removeEventListener("mouseout", this._boundHandleMouseOut);
       this.container.removeEventListener("wheel", this._boundHandleWheel);
+      this.container.removeEventListener("keydown", this._boundHandleKeyDown);
       this.container.innerHTML = "";
     }
     this._itemDataMap = new WeakMap();
@@ -49,18 +67,33 @@ export default class BannerTimeLine {
   }
 
   /**
-   * 接收过滤好的特定年份的变体数据进行渲染
-   * @param {LoadedBannerData[]} filteredData
+   * 接收过滤好的变体数据（特定年份或搜索结果）进行渲染
+   * @param {BannerEntry[]} filteredData
    * @param {string} [targetPath] - 期望初始选中的变体路径
+   * @param {TimeLineRenderOptions} [options] - 渲染选项
    */
-  public render(filteredData: LoadedBannerData[], targetPath?: string): void {
+  public render(
+    filteredData: BannerEntry[],
+    targetPath?: string,
+    options: TimeLineRenderOptions = {},
+  ): void {
     if (!this.container) return;
+    const autoSelect = options.autoSelect ?? true;
 
     this._cleanupDropdowns();
+    this._thumbObserver?.disconnect();
     this.container.innerHTML = "";
 
-    // 计算初始选中的索引
-    let activeItemIndex = filteredData.length - 1;
+    if (filteredData.length === 0 && options.emptyText) {
+      const empty = document.createElement("div");
+      empty.className = "timeline-empty";
+      empty.innerText = options.emptyText;
+      this.container.appendChild(empty);
+      return;
+    }
+
+    // 计算初始选中的索引，不自动选中时只有命中 targetPath 才高亮
+    let activeItemIndex = autoSelect ? filteredData.length - 1 : -1;
     let activeVariantIndex = 0;
 
     if (targetPath) {
@@ -81,6 +114,7 @@ export default class BannerTimeLine {
         isActive ? activeVariantIndex : 0,
       );
       this.container?.appendChild(itemEl);
+      this._thumbObserver?.observe(itemEl);
 
       if (isActive) {
         setTimeout(() => {
@@ -94,7 +128,7 @@ export default class BannerTimeLine {
     });
 
     // 展示选定项的数据
-    if (filteredData.length > 0) {
+    if (autoSelect && filteredData.length > 0) {
       const targetItem = filteredData[activeItemIndex];
       if (this.onVariantSelect) {
         this.onVariantSelect(targetItem.variants[activeVariantIndex]);
@@ -102,12 +136,39 @@ export default class BannerTimeLine {
     }
   }
 
+  /**
+   * 在当前已渲染的条目中按路径选中变体（不重新渲染时间轴）
+   * @param {string} path - 变体路径
+   * @returns {boolean} 当前时间轴中是否存在该路径
+   */
+  public select(path: string): boolean {
+    if (!this.container) return false;
+    const items = Array.from(
+      this.container.querySelectorAll<HTMLElement>(".timeline-item"),
+    );
+    for (const itemEl of items) {
+      const itemData = this._itemDataMap.get(itemEl);
+      const vIdx = itemData?.variants.findIndex((v) => v.path === path) ?? -1;
+      if (vIdx === -1) continue;
+      this._activateVariant(itemEl, vIdx);
+      itemEl.scrollIntoView({
+        behavior: "smooth",
+        block: "nearest",
+        inline: "center",
+      });
+      return true;
+    }
+    return false;
+  }
+
   private _cleanupDropdowns(): void {
     window.clearTimeout(this._activeDropdownTimer);
     this._bodyDropdowns.forEach((d) => {
       // Remove portal events
       d.removeEventListener("mouseenter", this._clearTimerBound);
       d.removeEventListener("mouseleave", this._hideDropdownScheduledBound);
+      d.removeEventListener("keydown", this._handleDropdownKeyDownBound);
+      d.removeEventListener("focusout", this._handleDropdownFocusOutBound);
       d.remove();
     });
     this._bodyDropdowns = [];
@@ -117,14 +178,22 @@ export default class BannerTimeLine {
   private _clearTimerBound = () =>
     window.clearTimeout(this._activeDropdownTimer);
   private _hideDropdownScheduledBound = () => this._hideDropdownScheduled();
+  private _handleDropdownKeyDownBound = (e: KeyboardEvent) =>
+    this._handleDropdownKeyDown(e);
+  private _handleDropdownFocusOutBound = (e: FocusEvent) =>
+    this._handleDropdownFocusOut(e);
 
   private _createTimelineItem(
-    item: LoadedBannerData,
+    item: BannerEntry,
     isActive: boolean,
     activeVariantIndex: number = 0,
   ): HTMLDivElement {
     const itemEl = document.createElement("div");
     itemEl.className = `timeline-item ${isActive ? "active" : ""}`;
+    itemEl.setAttribute("role", "option");
+    itemEl.setAttribute("aria-selected", String(isActive));
+    // 漫游 tabindex：仅选中项可被 Tab 聚焦，其余通过方向键切换
+    itemEl.tabIndex = isActive ? 0 : -1;
 
     const content = document.createElement("div");
     content.className = "item-content";
@@ -143,6 +212,10 @@ export default class BannerTimeLine {
     content.appendChild(dateStr);
     content.appendChild(name);
     itemEl.appendChild(content);
+    // 预览图位于轨道线下方，不影响文字与轨道节点的对齐
+    if (this.loadThumbnail) itemEl.appendChild(this._createThumb());
+    itemEl.dataset.variantPath = item.variants[activeVariantIndex].path;
+    this._markErrored(itemEl, item.variants[activeVariantIndex]);
 
     if (item.variants.length > 1) {
       itemEl.classList.add("has-variants");
@@ -161,34 +234,31 @@ export default class BannerTimeLine {
 
       const dropdownId = `dropdown-${Math.random().toString(36).substr(2, 9)}`;
       itemEl.dataset.dropdownId = dropdownId;
+      itemEl.setAttribute("aria-haspopup", "listbox");
+      itemEl.setAttribute("aria-expanded", "false");
+      itemEl.setAttribute("aria-controls", dropdownId);
       const dropdown = document.createElement("div");
       dropdown.id = dropdownId;
       dropdown.className = "variant-dropdown";
+      dropdown.setAttribute("role", "listbox");
+      dropdown.setAttribute("aria-label", item.date);
 
-      item.variants.forEach((variant: LoadedVariant, index: number) => {
+      item.variants.forEach((variant: VariantInfo, index: number) => {
         const btn = document.createElement("div");
         btn.className = `variant-item ${index === activeVariantIndex && isActive ? "active" : ""}`;
-        btn.innerText = variant.name;
+        if (this.loadThumbnail) btn.appendChild(this._createThumb());
+        btn.append(variant.name);
+        btn.setAttribute("role", "option");
+        btn.setAttribute(
+          "aria-selected",
+          String(index === activeVariantIndex && isActive),
+        );
+        btn.tabIndex = -1;
+        this._markErrored(btn, variant);
 
         btn.addEventListener("click", (e: MouseEvent) => {
           e.stopPropagation();
-
-          if (this.container) {
-            this.container.querySelectorAll(".timeline-item").forEach((el) => {
-              el.classList.remove("active");
-            });
-          }
-          itemEl.classList.add("active");
-
-          dropdown.querySelectorAll(".variant-item").forEach((el) => {
-            el.classList.remove("active");
-          });
-          btn.classList.add("active");
-
-          nameText.innerText = variant.name;
-          if (this.onVariantSelect) {
-            this.onVariantSelect(variant);
-          }
+          this._activateVariant(itemEl, index);
         });
 
         dropdown.appendChild(btn);
@@ -200,6 +270,8 @@ export default class BannerTimeLine {
       // Portal hover events (Cannot delegate outside container easily, so bind directly to portal)
       dropdown.addEventListener("mouseenter", this._clearTimerBound);
       dropdown.addEventListener("mouseleave", this._hideDropdownScheduledBound);
+      dropdown.addEventListener("keydown", this._handleDropdownKeyDownBound);
+      dropdown.addEventListener("focusout", this._handleDropdownFocusOutBound);
     }
 
     itemEl.dataset.index = isActive ? "active" : "";
@@ -207,12 +279,121 @@ export default class BannerTimeLine {
     return itemEl;
   }
 
+  private _createThumb(): HTMLImageElement {
+    const img = document.createElement("img");
+    img.className = "item-thumb";
+    img.alt = "";
+    img.decoding = "async";
+    return img;
+  }
+
+  /**
+   * 条目滚动到可视区域附近时才加载预览图
+   */
+  private _setupThumbObserver(): void {
+    if (!this.container || !this.loadThumbnail) return;
+    if (typeof IntersectionObserver !== "function") return;
+    this._thumbObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          const itemEl = entry.target as HTMLElement;
+          this._thumbObserver?.unobserve(itemEl);
+          this._updateItemThumb(itemEl);
+        }
+      },
+      // 横向预留一屏左右的缓冲，滚动时提前加载
+      { root: this.container, rootMargin: "0px 100% 0px 100%" },
+    );
+  }
+
+  /**
+   * 将条目的预览图同步为当前显示的变体
+   */
+  private _updateItemThumb(itemEl: HTMLElement): void {
+    const variant = this._itemDataMap
+      .get(itemEl)
+      ?.variants.find((v) => v.path === itemEl.dataset.variantPath);
+    const img = itemEl.querySelector<HTMLImageElement>(".item-thumb");
+    if (variant && img) this._loadThumb(img, variant);
+  }
+
+  private _loadThumb(img: HTMLImageElement, variant: VariantInfo): void {
+    if (!this.loadThumbnail || img.dataset.thumbPath === variant.path) return;
+    img.dataset.thumbPath = variant.path;
+    img.classList.remove("loaded");
+    this.loadThumbnail(variant)
+      .catch(() => "")
+      .then((url) => {
+        // 加载期间条目已切换到其他变体时丢弃结果
+        if (img.dataset.thumbPath !== variant.path) return;
+        // 失败的预览图不会被缓存，清除标记以便下次显示该变体时重试
+        if (!url) {
+          delete img.dataset.thumbPath;
+          return;
+        }
+        img.src = url;
+        img.classList.add("loaded");
+      });
+  }
+
+  /**
+   * 记录变体的加载/校验问题（数据按需加载，问题在选中后才可知），并刷新已渲染的条目
+   * @param {string} path - 变体路径
+   * @param {ValidationIssue[]} issues - 问题列表，空数组表示清除
+   */
+  public setVariantIssues(path: string, issues: ValidationIssue[]): void {
+    if (issues.length > 0) this._issues.set(path, issues);
+    else this._issues.delete(path);
+    if (!this.container) return;
+
+    const items = Array.from(
+      this.container.querySelectorAll<HTMLElement>(".timeline-item"),
+    );
+    for (const itemEl of items) {
+      const variants = this._itemDataMap.get(itemEl)?.variants || [];
+      const vIdx = variants.findIndex((v) => v.path === path);
+      if (vIdx === -1) continue;
+      if (itemEl.dataset.variantPath === path) {
+        this._markErrored(itemEl, variants[vIdx]);
+      }
+      const btn =
+        this._getDropdown(itemEl)?.querySelectorAll<HTMLElement>(
+          ".variant-item",
+        )[vIdx];
+      if (btn) this._markErrored(btn, variants[vIdx]);
+    }
+  }
+
+  /**
+   * 校验未通过的变体标记为错误态，并将问题报告挂到 title 上便于排查
+   */
+  private _markErrored(el: HTMLElement, variant: VariantInfo): void {
+    const issues = this._issues.get(variant.path);
+    el.classList.toggle("errored", !!issues);
+    if (issues) {
+      el.title = formatIssues(issues);
+    } else {
+      el.removeAttribute("title");
+    }
+  }
+
+  private _setupAria(): void {
+    if (!this.container) return;
+    this.container.setAttribute("role", "listbox");
+    this.container.setAttribute("aria-orientation", "horizontal");
+    this.container.setAttribute("aria-label", "Banner 时间轴");
+  }
+
   private _setupEventDelegation(): void {
     if (!this.container) return;
 
     // Click Delegation
     this.container.addEventListener("click", this._boundHandleClick);
 
+    // Keyboard Delegation
+    this.container.addEventListener("keydown", this._boundHandleKeyDown);
+
     // Hover Delegation (mouseover/mouseout bubble)
     this.container.addEventListener("mouseover", this._boundHandleMouseOver);
     this.container.addEventListener("mouseout", this._boundHandleMouseOut);
@@ -223,21 +404,48 @@ export default class BannerTimeLine {
     const itemEl = target.closest(".timeline-item") as HTMLElement;
     if (!itemEl) return;
 
+    this._activateVariant(itemEl, 0);
+  }
+
+  /**
+   * 将指定条目的某个变体设为选中态，同步下拉菜单高亮并对外通知
+   */
+  private _activateVariant(itemEl: HTMLElement, variantIndex: number): void {
     const itemData = this._itemDataMap.get(itemEl);
-    if (!itemData) return;
+    const variant = itemData?.variants[variantIndex];
+    if (!variant) return;
 
     if (this.container) {
-      this.container.querySelectorAll(".timeline-item").forEach((el) => {
-        el.classList.remove("active");
-      });
+      this.container
+        .querySelectorAll<HTMLElement>(".timeline-item")
+        .forEach((el) => {
+          el.classList.remove("active");
+          el.setAttribute("aria-selected", "false");
+          el.tabIndex = -1;
+        });
     }
     itemEl.classList.add("active");
+    itemEl.setAttribute("aria-selected", "true");
+    itemEl.tabIndex = 0;
+
+    this._getDropdown(itemEl)
+      ?.querySelectorAll(".variant-item")
+      .forEach((el, i) => {
+        el.classList.toggle("active", i === variantIndex);
+        el.setAttribute("aria-selected", String(i === variantIndex));
+      });
 
     const nameText = itemEl.querySelector("span > span") as HTMLElement;
-    if (nameText) nameText.innerText = itemData.variants[0].name;
+    if (nameText) nameText.innerText = variant.name;
+    itemEl.dataset.variantPath = variant.path;
+    this._markErrored(itemEl, variant);
+    // 预览图尚未进入可视区域加载过的条目，交给观察器处理
+    if (itemEl.querySelector(".item-thumb")?.hasAttribute("data-thumb-path")) {
+      this._updateItemThumb(itemEl);
+    }
 
     if (this.onVariantSelect) {
-      this.onVariantSelect(itemData.variants[0]);
+      this.onVariantSelect(variant);
     }
   }
 
@@ -259,32 +467,184 @@ export default class BannerTimeLine {
     }
   }
 
-  private _showDropdownFor(itemEl: HTMLElement): void {
-    window.clearTimeout(this._activeDropdownTimer);
+  // ─────────────── 键盘导航 ───────────────
 
-    // Hide all first
-    this._bodyDropdowns.forEach((d) => {
-      d.classList.remove("visible");
+  /**
+   * 时间轴：左右方向键/Home/End 移动焦点，Enter/空格选中，
+   * 向下方向键（或 Alt+↓）展开变体下拉菜单
+   */
+  private _handleKeyDown(e: KeyboardEvent): void {
+    if (!this.container) return;
+    const itemEl = (e.target as HTMLElement).closest(
+      ".timeline-item",
+    ) as HTMLElement | null;
+    if (!itemEl) return;
+
+    const items = Array.from(
+      this.container.querySelectorAll<HTMLElement>(".timeline-item"),
+    );
+    const index = items.indexOf(itemEl);
+
+    switch (e.key) {
+      case "ArrowRight":
+      case "ArrowLeft":
+      case "Home":
+      case "End": {
+        e.preventDefault();
+        const next =
+          e.key === "Home"
+            ? 0
+            : e.key === "End"
+              ? items.length - 1
+              : Math.max(
+                  0,
+                  Math.min(
+                    items.length - 1,
+                    index + (e.key === "ArrowRight" ? 1 : -1),
+                  ),
+                );
+        this._hideDropdowns();
+        this._focusItem(items, next);
+        break;
+      }
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        this._activateVariant(itemEl, 0);
+        break;
+      case "ArrowDown":
+        if (!itemEl.classList.contains("has-variants")) return;
+        e.preventDefault();
+        this._openDropdownWithKeyboard(itemEl);
+        break;
+      case "Escape":
+        this._hideDropdowns();
+        break;
+    }
+  }
+
+  /**
+   * 变体下拉菜单：上下方向键切换，Enter/空格选中，Esc 关闭并归还焦点
+   */
+  private _handleDropdownKeyDown(e: KeyboardEvent): void {
+    const dropdown = e.currentTarget as HTMLElement;
+    const options = Array.from(
+      dropdown.querySelectorAll<HTMLElement>(".variant-item"),
+    );
+    const index = options.indexOf(e.target as HTMLElement);
+    const owner = this._getDropdownOwner(dropdown);
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        const next = (index + step + options.length) % options.length;
+        options[next]?.focus();
+        break;
+      }
+      case "Home":
+      case "End":
+        e.preventDefault();
+        options[e.key === "Home" ? 0 : options.length - 1]?.focus();
+        break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        options[index]?.click();
+        this._hideDropdowns();
+        owner?.focus();
+        break;
+      case "Escape":
+        e.preventDefault();
+        this._hideDropdowns();
+        owner?.focus();
+        break;
+      case "Tab":
+        this._hideDropdowns();
+        break;
+    }
+  }
+
+  private _handleDropdownFocusOut(e: FocusEvent): void {
+    const dropdown = e.currentTarget as HTMLElement;
+    if (!dropdown.contains(e.relatedTarget as Node)) {
+      this._hideDropdownScheduled();
+    }
+  }
+
+  private _focusItem(items: HTMLElement[], index: number): void {
+    const target = items[index];
+    if (!target) return;
+    items.forEach((el) => {
+      el.tabIndex = el === target ? 0 : -1;
     });
+    target.focus();
+    target.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }
 
+  private _openDropdownWithKeyboard(itemEl: HTMLElement): void {
+    this._showDropdownFor(itemEl);
+    const dropdown = this._getDropdown(itemEl);
+    if (!dropdown) return;
+    const target =
+      dropdown.querySelector<HTMLElement>(".variant-item.active") ||
+      dropdown.querySelector<HTMLElement>(".variant-item");
+    target?.focus();
+  }
+
+  private _getDropdown(itemEl: HTMLElement): HTMLElement | null {
     const dropdownId = itemEl.dataset.dropdownId;
-    if (!dropdownId) return;
+    return dropdownId ? document.getElementById(dropdownId) : null;
+  }
+
+  private _getDropdownOwner(dropdown: HTMLElement): HTMLElement | null {
+    return (
+      this.container?.querySelector<HTMLElement>(
+        `[data-dropdown-id="${dropdown.id}"]`,
+      ) || null
+    );
+  }
+
+  private _showDropdownFor(itemEl: HTMLElement): void {
+    window.clearTimeout(this._activeDropdownTimer);
+
+    // Hide all first
+    this._hideDropdowns();
 
-    const dropdown = document.getElementById(dropdownId) as HTMLDivElement;
+    const dropdown = this._getDropdown(itemEl);
     if (!dropdown) return;
 
+    // 下拉菜单首次展开时才加载各变体的预览图
+    const variants = this._itemDataMap.get(itemEl)?.variants || [];
+    dropdown
+      .querySelectorAll<HTMLImageElement>(".item-thumb")
+      .forEach((img, i) => {
+        if (variants[i]) this._loadThumb(img, variants[i]);
+      });
+
     const rect = itemEl.getBoundingClientRect();
     dropdown.style.top = `${rect.bottom + 8}px`;
     dropdown.style.left = `${rect.left + rect.width / 2}px`;
     dropdown.classList.add("visible");
+    itemEl.setAttribute("aria-expanded", "true");
+  }
+
+  private _hideDropdowns(): void {
+    this._bodyDropdowns.forEach((d) => {
+      d.classList.remove("visible");
+    });
+    this.container
+      ?.querySelectorAll(".timeline-item.has-variants")
+      .forEach((el) => {
+        el.setAttribute("aria-expanded", "false");
+      });
   }
 
   private _hideDropdownScheduled(): void {
     window.clearTimeout(this._activeDropdownTimer);
     this._activeDropdownTimer = window.setTimeout(() => {
-      this._bodyDropdowns.forEach((d) => {
-        d.classList.remove("visible");
-      });
+      this._hideDropdowns();
     }, 150);
   }
 
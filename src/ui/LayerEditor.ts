@@ -0,0 +1,465 @@
+import type BannerEngine from "../core/BannerEngine";
+import type {
+  LayerPatch,
+  ParallaxLayer,
+  ParticleLayerConfig,
+  StandardBannerData,
+} from "../core/BannerEngine";
+import BannerExporter from "../core/BannerExporter";
+import { formatIssues, validateBannerData } from "../core/BannerSchema";
+
+export interface LayerEditorOptions {
+  containerId?: string;
+  engine: BannerEngine;
+}
+
+type ScalarField =
+  | "a"
+  | "g"
+  | "f"
+  | "deg"
+  | "ay"
+  | "gy"
+  | "fy"
+  | "degy"
+  | "inertia"
+  | "blur";
+type ArrayField = "transform" | "opacity";
+
+const LAYER_ICONS: Record<ParallaxLayer["type"], string> = {
+  image: "🖼",
+  video: "🎞",
+  sprite: "🎬",
+};
+
+// 标量参数：必填项清空时忽略输入，可选项清空时移除该参数
+const SCALAR_FIELDS: Array<{
+  field: ScalarField;
+  label: string;
+  step: number;
+  optional: boolean;
+}> = [
+  { field: "a", label: "a 位移", step: 0.01, optional: false },
+  { field: "g", label: "g 纵移", step: 0.01, optional: true },
+  { field: "f", label: "f 缩放", step: 0.0001, optional: true },
+  { field: "deg", label: "deg 旋转", step: 0.0001, optional: true },
+  { field: "ay", label: "ay 纵向·纵移", step: 0.01, optional: true },
+  { field: "gy", label: "gy 纵向·横移", step: 0.01, optional: true },
+  { field: "fy", label: "fy 纵向·缩放", step: 0.0001, optional: true },
+  { field: "degy", label: "degy 纵向·旋转", step: 0.0001, optional: true },
+  { field: "inertia", label: "inertia 惯性", step: 0.1, optional: true },
+  { field: "blur", label: "blur 模糊", step: 0.5, optional: true },
+];
+
+const ARRAY_FIELDS: Array<{
+  field: ArrayField;
+  label: string;
+  slots: string[];
+  step: number;
+  fallback: number[];
+}> = [
+  {
+    field: "transform",
+    label: "transform",
+    slots: ["a", "b", "c", "d", "tx", "ty"],
+    step: 0.01,
+    fallback: [1, 0, 0, 1, 0, 0],
+  },
+  {
+    field: "opacity",
+    label: "opacity",
+    slots: ["默认", "左", "右"],
+    step: 0.05,
+    fallback: [1, 1, 1],
+  },
+];
+
+/**
+ * 图层参数编辑器
+ * 列出当前变体的视差图层，实时调整 a/g/f/deg、纵向系数 ay/gy/fy/degy、惯性 inertia 与 blur/opacity/transform，
+ * 支持单独显示（solo）/隐藏图层，并可导出为可直接提交的 data.json，
+ * 或按预览偏移导出 PNG 截图、录制扫动预览 WebM。
+ */
+export default class LayerEditor {
+  private container: HTMLElement | null;
+  private engine: BannerEngine;
+  private panel: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private exporter: BannerExporter;
+  private variantPath: string = "";
+  private recording: boolean = false;
+
+  private data: StandardBannerData | null = null; // 当前场景的原始数据，导出时保留粒子层及其位置
+  private layers: ParallaxLayer[] = [];
+  private hidden: Set<number> = new Set();
+  private solo: number | null = null;
+  private _unsubscribe?: () => void;
+
+  private _boundHandleInput: (e: Event) => void;
+  private _boundHandleClick: (e: MouseEvent) => void;
+
+  constructor(options: LayerEditorOptions) {
+    this.container = document.getElementById(
+      options.containerId || "layerEditor",
+    );
+    this.engine = options.engine;
+    this.exporter = new BannerExporter(this.engine);
+
+    this._boundHandleInput = this._handleInput.bind(this);
+    this._boundHandleClick = this._handleClick.bind(this);
+
+    this._render();
+    this._unsubscribe = this.engine.on("dataChange", ({ data }) =>
+      this._load(data),
+    );
+  }
+
+  public destroy(): void {
+    this._unsubscribe?.();
+    if (this.panel) {
+      this.panel.removeEventListener("input", this._boundHandleInput);
+      this.panel.removeEventListener("click", this._boundHandleClick);
+    }
+    if (this.container) this.container.innerHTML = "";
+    this.panel = null;
+    this.list = null;
+    this.status = null;
+  }
+
+  /**
+   * 记录当前变体目录名，用于导出文件命名与校验报告定位
+   */
+  public setVariantPath(path: string): void {
+    this.variantPath = path;
+  }
+
+  /**
+   * 将当前编辑结果转换为 data.json 原始格式
+   * @returns {unknown[]} 与原文件图层顺序一致的数组，纯视频模式下为空数组
+   */
+  public toRawData(): unknown[] {
+    if (!this.data || this.data.type !== "parallax") return [];
+    const payload = this.data.payload as Array<
+      ParallaxLayer | ParticleLayerConfig
+    >;
+    let index = 0;
+    return payload.map((item) => {
+      if (item.type === "particle") return item;
+      const edited = this.layers[index++];
+      if (item.type === "sprite") return { ...item, ...edited };
+      // 原始数据中的 tagName 随 original 保留；图片图层通常省略该字段，不额外补写
+      const { type, ...original } = item;
+      const { type: _type, ...rest } = edited;
+      const raw: Record<string, unknown> = { ...original, ...rest };
+      if (type === "video") raw.tagName = "video";
+      return raw;
+    });
+  }
+
+  private _render(): void {
+    if (!this.container) return;
+    const panel = document.createElement("aside");
+    panel.className = "layer-editor";
+    panel.setAttribute("aria-label", "图层参数编辑器");
+    panel.innerHTML = `
+      <div class="layer-editor-header">
+        <strong>图层编辑器</strong>
+        <button type="button" data-action="export">导出 data.json</button>
+      </div>
+      <div class="layer-editor-header">
+        <button type="button" data-action="png">导出 PNG</button>
+        <button type="button" data-action="webm">录制 WebM</button>
+      </div>
+      <label class="layer-editor-preview">
+        预览偏移
+        <input type="range" min="-800" max="800" step="1" value="0" data-action="preview" />
+      </label>
+      <label class="layer-editor-preview">
+        纵向偏移
+        <input type="range" min="-80" max="80" step="1" value="0" data-action="previewY" />
+      </label>
+      <div class="layer-editor-status" role="status"></div>
+      <div class="layer-editor-list"></div>
+    `;
+    panel.addEventListener("input", this._boundHandleInput);
+    panel.addEventListener("click", this._boundHandleClick);
+
+    this.container.innerHTML = "";
+    this.container.appendChild(panel);
+    this.panel = panel;
+    this.list = panel.querySelector(".layer-editor-list");
+    this.status = panel.querySelector(".layer-editor-status");
+  }
+
+  private _load(data: StandardBannerData): void {
+    this.data = data;
+    this.layers = this.engine.getLayers();
+    this.hidden.clear();
+    this.solo = null;
+    this._setStatus(
+      data.type === "parallax" ? "" : "纯视频模式，没有可编辑的图层",
+    );
+    this._renderLayers();
+  }
+
+  private _renderLayers(): void {
+    if (!this.list) return;
+    this.list.innerHTML = "";
+    this.layers.forEach((layer, index) => {
+      const itemEl = document.createElement("div");
+      itemEl.className = "layer-editor-item";
+      itemEl.dataset.index = String(index);
+
+      // 开关放在 summary 之外，避免点击时展开/收起参数面板
+      const head = document.createElement("div");
+      head.className = "layer-editor-head";
+      const name = document.createElement("span");
+      name.className = "layer-editor-name";
+      name.title = layer.src;
+      name.innerText = `#${index} ${LAYER_ICONS[layer.type]} ${layer.src.split("/").pop()}`;
+      head.append(
+        name,
+        this._createToggle("solo", "S", "仅显示此图层", false),
+        this._createToggle("visible", "显示", "显示此图层", true),
+      );
+
+      const details = document.createElement("details");
+      const summary = document.createElement("summary");
+      summary.innerText = "参数";
+      details.appendChild(summary);
+
+      for (const { field, label, step, optional } of SCALAR_FIELDS) {
+        const value = layer[field];
+        details.appendChild(
+          this._createRow(label, [
+            this._createInput(field, null, step, value, optional ? "0" : ""),
+          ]),
+        );
+      }
+      for (const { field, label, slots, step, fallback } of ARRAY_FIELDS) {
+        const values = layer[field] || fallback;
+        details.appendChild(
+          this._createRow(
+            label,
+            slots.map((slot, i) =>
+              this._createInput(field, i, step, values[i], slot),
+            ),
+          ),
+        );
+      }
+      itemEl.append(head, details);
+      this.list?.appendChild(itemEl);
+    });
+    this._syncCheckboxes();
+  }
+
+  private _createToggle(
+    action: "solo" | "visible",
+    text: string,
+    title: string,
+    checked: boolean,
+  ): HTMLLabelElement {
+    const label = document.createElement("label");
+    label.title = title;
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = checked;
+    input.dataset.action = action;
+    label.append(input, ` ${text}`);
+    return label;
+  }
+
+  private _createRow(label: string, inputs: HTMLInputElement[]): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "layer-editor-row";
+    const caption = document.createElement("span");
+    caption.innerText = label;
+    row.appendChild(caption);
+    for (const input of inputs) row.appendChild(input);
+    return row;
+  }
+
+  private _createInput(
+    field: ScalarField | ArrayField,
+    slot: number | null,
+    step: number,
+    value: number | undefined,
+    placeholder: string,
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = String(step);
+    input.dataset.field = field;
+    if (slot !== null) input.dataset.slot = String(slot);
+    if (value !== undefined) input.value = String(value);
+    input.placeholder = placeholder;
+    input.title = placeholder ? `${field} ${placeholder}` : field;
+    return input;
+  }
+
+  private _handleInput(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    if (
+      input.dataset.action === "preview" ||
+      input.dataset.action === "previewY"
+    ) {
+      const [moveX, moveY] = this._previewOffset();
+      this.engine.setPointerOffset(moveX, moveY);
+      return;
+    }
+    if (input.dataset.action) return;
+
+    const itemEl = input.closest<HTMLElement>(".layer-editor-item");
+    const field = input.dataset.field;
+    if (!itemEl || !field) return;
+    const index = Number(itemEl.dataset.index);
+    const layer = this.layers[index];
+    const value = input.valueAsNumber;
+
+    let patch: LayerPatch;
+    if (input.dataset.slot !== undefined) {
+      if (Number.isNaN(value)) return;
+      const arrayField = field as ArrayField;
+      const config = ARRAY_FIELDS.find((item) => item.field === arrayField);
+      const values = [...(layer[arrayField] || config?.fallback || [])];
+      values[Number(input.dataset.slot)] = value;
+      patch = { [arrayField]: values };
+    } else {
+      const config = SCALAR_FIELDS.find((item) => item.field === field);
+      if (Number.isNaN(value) && !config?.optional) return;
+      patch = { [field]: Number.isNaN(value) ? undefined : value };
+    }
+
+    Object.assign(layer, patch);
+    this.engine.updateLayer(index, patch);
+  }
+
+  private _handleClick(e: MouseEvent): void {
+    const target = e.target as HTMLElement;
+    const action = target.dataset.action;
+    if (action === "export") {
+      this._export();
+      return;
+    }
+    if (action === "png") {
+      this._exportPng();
+      return;
+    }
+    if (action === "webm") {
+      this._recordSweep();
+      return;
+    }
+    if (action !== "solo" && action !== "visible") return;
+
+    const itemEl = target.closest<HTMLElement>(".layer-editor-item");
+    if (!itemEl) return;
+    const index = Number(itemEl.dataset.index);
+    const checked = (target as HTMLInputElement).checked;
+    if (action === "solo") {
+      this.solo = checked ? index : null;
+    } else if (checked) {
+      this.hidden.delete(index);
+    } else {
+      this.hidden.add(index);
+    }
+    this._syncCheckboxes();
+  }
+
+  /**
+   * solo 优先于单独的显示开关：存在 solo 图层时仅显示该图层
+   */
+  private _syncCheckboxes(): void {
+    this.list
+      ?.querySelectorAll<HTMLElement>(".layer-editor-item")
+      .forEach((itemEl) => {
+        const index = Number(itemEl.dataset.index);
+        const solo = itemEl.querySelector<HTMLInputElement>(
+          '[data-action="solo"]',
+        );
+        const visible = itemEl.querySelector<HTMLInputElement>(
+          '[data-action="visible"]',
+        );
+        if (solo) solo.checked = this.solo === index;
+        if (visible) visible.checked = !this.hidden.has(index);
+        this.engine.setLayerVisible(
+          index,
+          this.solo === null ? !this.hidden.has(index) : this.solo === index,
+        );
+      });
+  }
+
+  private _export(): void {
+    const layers = this.toRawData();
+    if (layers.length === 0) return;
+    // 原数据带有 Banner 级参数时沿用对象格式
+    const { physics, framing } = this.data || {};
+    const raw = physics || framing ? { physics, framing, layers } : layers;
+
+    const issues = validateBannerData(raw, this.variantPath || "data.json");
+    if (issues.length > 0) {
+      console.warn(
+        `[LayerEditor] 导出的数据未通过校验：\n${formatIssues(issues)}`,
+      );
+    }
+    this._setStatus(
+      issues.length > 0
+        ? `已导出，但存在 ${issues.length} 个问题，详见控制台`
+        : "已导出",
+    );
+
+    const blob = new Blob([`${JSON.stringify(raw, null, 2)}\n`], {
+      type: "application/json",
+    });
+    BannerExporter.download(blob, "data.json");
+  }
+
+  /**
+   * 读取预览滑块的水平与垂直偏移
+   */
+  private _previewOffset(): [number, number] {
+    const read = (action: string) =>
+      this.panel?.querySelector<HTMLInputElement>(`[data-action="${action}"]`)
+        ?.valueAsNumber || 0;
+    return [read("preview"), read("previewY")];
+  }
+
+  /**
+   * 以预览滑块的偏移导出当前画面
+   */
+  private _exportPng(): void {
+    const [moveX, moveY] = this._previewOffset();
+    const suffix = moveY ? `${moveX}_${moveY}` : String(moveX);
+    this.exporter
+      .exportPng(moveX, moveY)
+      .then((blob) => {
+        BannerExporter.download(blob, `${this._fileBase()}_${suffix}.png`);
+        this._setStatus("已导出 PNG");
+      })
+      .catch((e) => this._setStatus(String(e)));
+  }
+
+  private _recordSweep(): void {
+    if (this.recording) return;
+    this.recording = true;
+    this._setStatus("录制中…");
+    this.exporter
+      .recordSweep()
+      .then((blob) => {
+        BannerExporter.download(blob, `${this._fileBase()}_sweep.webm`);
+        this._setStatus("已导出 WebM");
+      })
+      .catch((e) => this._setStatus(String(e)))
+      .finally(() => {
+        this.recording = false;
+      });
+  }
+
+  private _fileBase(): string {
+    return this.variantPath || "banner";
+  }
+
+  private _setStatus(text: string): void {
+    if (this.status) this.status.innerText = text;
+  }
+}
@@ -0,0 +1,70 @@
+import type BannerEngine from "../core/BannerEngine";
+
+export interface MotionToggleOptions {
+  containerId?: string;
+  engine: BannerEngine;
+}
+
+/**
+ * 全局动效开关：暂停/恢复 Banner 的所有动画与视频
+ */
+export default class MotionToggle {
+  private container: HTMLElement | null;
+  private engine: BannerEngine;
+  private button: HTMLButtonElement | null = null;
+  private _unsubscribe?: () => void;
+
+  private _boundHandleClick: () => void;
+
+  constructor(options: MotionToggleOptions) {
+    this.container = document.getElementById(
+      options.containerId || "motionToggle",
+    );
+    this.engine = options.engine;
+
+    this._boundHandleClick = this._handleClick.bind(this);
+
+    this._render();
+    this._unsubscribe = this.engine.on("pauseChange", () => this._sync());
+  }
+
+  public destroy(): void {
+    this._unsubscribe?.();
+    this.button?.removeEventListener("click", this._boundHandleClick);
+    if (this.container) this.container.innerHTML = "";
+    this.button = null;
+  }
+
+  private _render(): void {
+    if (!this.container) return;
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "motion-toggle";
+    button.addEventListener("click", this._boundHandleClick);
+    this.container.innerHTML = "";
+    this.container.appendChild(button);
+    this.button = button;
+    this._sync();
+  }
+
+  private _isUserPaused(): boolean {
+    return this.engine.getPauseReasons().includes("user");
+  }
+
+  /**
+   * 按钮只反映用户主动暂停；页面隐藏等自动暂停不改变按钮状态
+   */
+  private _sync(): void {
+    if (!this.button) return;
+    const paused = this._isUserPaused();
+    this.button.setAttribute("aria-pressed", String(paused));
+    this.button.innerText = paused ? "▶ 播放动效" : "❚❚ 暂停动效";
+    this.button.title = paused ? "恢复 Banner 动画" : "暂停 Banner 动画";
+  }
+
+  private _handleClick(): void {
+    if (this._isUserPaused()) this.engine.resume();
+    else this.engine.pause();
+    this._sync();
+  }
+}
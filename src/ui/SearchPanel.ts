@@ -0,0 +1,251 @@
+import type { BannerEntry, LoadedVariant } from "../core/BannerDataLoader";
+import {
+  filterBanners,
+  filterEntries,
+  isEmptyQuery,
+  type LayerKind,
+  type SearchQuery,
+} from "../core/BannerSearch";
+
+export interface SearchPanelOptions {
+  containerId?: string;
+  entries: BannerEntry[]; // 清单条目，名称与标签直接在其上匹配
+  tags: string[]; // 可供筛选的标签，通常来自清单
+  loadVariant: (path: string) => Promise<LoadedVariant>; // 按图层类型筛选时才加载候选变体的数据
+  onSearch: (results: BannerEntry[] | null) => void; // null 表示条件已清空，应回到按年份浏览
+}
+
+// 已知标签的展示名称，未列出的标签原样显示
+const TAG_LABELS: Record<string, string> = {
+  spring: "春",
+  summer: "夏",
+  autumn: "秋",
+  winter: "冬",
+  night: "夜景",
+  festival: "节日",
+};
+
+const KIND_LABELS: Record<LayerKind, string> = {
+  video: "视频图层",
+  particle: "粒子",
+  "simple-video": "纯视频",
+};
+
+const INPUT_DELAY = 200;
+
+/**
+ * Banner 搜索面板：名称关键字（支持拼音首字母）+ 标签/图层类型筛选，
+ * 结果通过 onSearch 交给时间轴渲染
+ */
+export default class SearchPanel {
+  private container: HTMLElement | null;
+  private entries: BannerEntry[];
+  private tags: string[];
+  private loadVariant: (path: string) => Promise<LoadedVariant>;
+  private onSearch: (results: BannerEntry[] | null) => void;
+  private input: HTMLInputElement | null = null;
+  private status: HTMLElement | null = null;
+  private query: Required<SearchQuery> = { text: "", tags: [], kinds: [] };
+  private _inputTimer?: number;
+  private _searchId: number = 0;
+
+  private _boundHandleInput: () => void;
+  private _boundHandleClick: (e: MouseEvent) => void;
+  private _boundHandleKeyDown: (e: KeyboardEvent) => void;
+
+  constructor(options: SearchPanelOptions) {
+    this.container = document.getElementById(
+      options.containerId || "searchBox",
+    );
+    this.entries = options.entries;
+    this.tags = options.tags;
+    this.loadVariant = options.loadVariant;
+    this.onSearch = options.onSearch;
+
+    this._boundHandleInput = this._handleInput.bind(this);
+    this._boundHandleClick = this._handleClick.bind(this);
+    this._boundHandleKeyDown = this._handleKeyDown.bind(this);
+
+    this._render();
+  }
+
+  public destroy(): void {
+    window.clearTimeout(this._inputTimer);
+    if (this.container) {
+      this.container.removeEventListener("input", this._boundHandleInput);
+      this.container.removeEventListener("click", this._boundHandleClick);
+      this.container.removeEventListener("keydown", this._boundHandleKeyDown);
+      this.container.innerHTML = "";
+    }
+    this.input = null;
+    this.status = null;
+  }
+
+  /**
+   * 当前是否处于搜索状态（存在任一筛选条件）
+   */
+  public isActive(): boolean {
+    return !isEmptyQuery(this.query);
+  }
+
+  /**
+   * 清空所有条件，不触发 onSearch（由调用方自行恢复视图）
+   */
+  public clear(): void {
+    window.clearTimeout(this._inputTimer);
+    this._searchId++;
+    this.query = { text: "", tags: [], kinds: [] };
+    if (this.input) this.input.value = "";
+    this.container
+      ?.querySelectorAll<HTMLElement>(".search-chip")
+      .forEach((chip) => {
+        chip.setAttribute("aria-pressed", "false");
+      });
+    this._syncState(null);
+  }
+
+  private _render(): void {
+    if (!this.container) return;
+    this.container.innerHTML = "";
+    this.container.setAttribute("role", "search");
+
+    const input = document.createElement("input");
+    input.type = "search";
+    input.className = "search-input";
+    input.placeholder = "搜索名称 / 拼音首字母";
+    input.setAttribute("aria-label", "搜索 Banner");
+    this.container.appendChild(input);
+    this.input = input;
+
+    const chips = document.createElement("div");
+    chips.className = "search-chips";
+    for (const tag of this.tags) {
+      chips.appendChild(this._createChip("tag", tag, TAG_LABELS[tag] || tag));
+    }
+    for (const [kind, label] of Object.entries(KIND_LABELS)) {
+      chips.appendChild(this._createChip("kind", kind, label));
+    }
+    this.container.appendChild(chips);
+
+    const status = document.createElement("span");
+    status.className = "search-status";
+    status.setAttribute("aria-live", "polite");
+    this.container.appendChild(status);
+    this.status = status;
+
+    this.container.addEventListener("input", this._boundHandleInput);
+    this.container.addEventListener("click", this._boundHandleClick);
+    this.container.addEventListener("keydown", this._boundHandleKeyDown);
+  }
+
+  private _createChip(
+    group: "tag" | "kind",
+    value: string,
+    label: string,
+  ): HTMLButtonElement {
+    const chip = document.createElement("button");
+    chip.type = "button";
+    chip.className = `search-chip search-chip-${group}`;
+    chip.dataset.group = group;
+    chip.dataset.value = value;
+    chip.setAttribute("aria-pressed", "false");
+    chip.innerText = label;
+    return chip;
+  }
+
+  /**
+   * 输入防抖，避免每次按键都重新渲染时间轴
+   */
+  private _handleInput(): void {
+    window.clearTimeout(this._inputTimer);
+    this._inputTimer = window.setTimeout(() => {
+      this.query.text = this.input?.value || "";
+      this._search();
+    }, INPUT_DELAY);
+  }
+
+  private _handleClick(e: MouseEvent): void {
+    const chip = (e.target as HTMLElement).closest<HTMLElement>(".search-chip");
+    const value = chip?.dataset.value;
+    if (!chip || !value) return;
+
+    const pressed = chip.getAttribute("aria-pressed") !== "true";
+    chip.setAttribute("aria-pressed", String(pressed));
+    if (chip.dataset.group === "tag") {
+      this.query.tags = this._toggle(this.query.tags, value, pressed);
+    } else {
+      this.query.kinds = this._toggle(
+        this.query.kinds,
+        value as LayerKind,
+        pressed,
+      );
+    }
+    this._search();
+  }
+
+  /**
+   * 在输入框中按 Esc 清空全部条件并回到按年份浏览
+   */
+  private _handleKeyDown(e: KeyboardEvent): void {
+    if (e.key !== "Escape" || e.target !== this.input || !this.isActive()) {
+      return;
+    }
+    e.preventDefault();
+    this.clear();
+    this.onSearch(null);
+  }
+
+  private _toggle<T>(list: T[], value: T, pressed: boolean): T[] {
+    const rest = list.filter((item) => item !== value);
+    return pressed ? [...rest, value] : rest;
+  }
+
+  private _search(): void {
+    const searchId = ++this._searchId;
+    if (!this.isActive()) {
+      this._syncState(null);
+      this.onSearch(null);
+      return;
+    }
+
+    // 名称与标签只需清单；图层类型需要数据，只加载通过前一步的候选变体
+    const candidates = filterEntries(this.entries, this.query);
+    if (this.query.kinds.length === 0) {
+      this._syncState(candidates);
+      this.onSearch(candidates);
+      return;
+    }
+
+    if (this.status) this.status.innerText = "加载中…";
+    const query = { kinds: [...this.query.kinds] };
+    Promise.all(
+      candidates.map(async (entry) => ({
+        date: entry.date,
+        variants: await Promise.all(
+          entry.variants.map((variant) => this.loadVariant(variant.path)),
+        ),
+      })),
+    ).then(
+      (loaded) => {
+        // 加载期间条件已变化时丢弃结果
+        if (searchId !== this._searchId) return;
+        const results = filterBanners(loaded, query);
+        this._syncState(results);
+        this.onSearch(results);
+      },
+      (e: unknown) => {
+        if (searchId !== this._searchId) return;
+        if (this.status) this.status.innerText = "加载失败";
+        console.error("[SearchPanel] Failed to load banner data", e);
+      },
+    );
+  }
+
+  private _syncState(results: BannerEntry[] | null): void {
+    this.container?.classList.toggle("active", results !== null);
+    if (!this.status) return;
+    const count =
+      results?.reduce((sum, entry) => sum + entry.variants.length, 0) ?? 0;
+    this.status.innerText = results ? `${count} 个结果` : "";
+  }
+}
@@ -10,6 +10,7 @@ export default class YearSelector {
 
   private _boundHandleClick: (e: MouseEvent) => void;
   private _boundHandleWheel: (e: WheelEvent) => void;
+  private _boundHandleKeyDown: (e: KeyboardEvent) => void;
 
   constructor(options: YearSelectorOptions = {}) {
     this.container = document.getElementById(options.containerId || "yearBox");
@@ -17,6 +18,7 @@ export default class YearSelector {
 
     this._boundHandleClick = this._handleClick.bind(this);
     this._boundHandleWheel = this._handleWheel.bind(this);
+    this._boundHandleKeyDown = this._handleKeyDown.bind(this);
 
     this._setupScrollWheel();
     this._setupEventDelegation();
@@ -26,6 +28,7 @@ export default class YearSelector {
     if (this.container) {
       this.container.removeEventListener("click", this._boundHandleClick);
       this.container.removeEventListener("wheel", this._boundHandleWheel);
+      this.container.removeEventListener("keydown", this._boundHandleKeyDown);
       this.container.innerHTML = "";
     }
     this.onYearChange = undefined;
@@ -50,15 +53,38 @@ export default class YearSelector {
     }
   }
 
+  /**
+   * 以编程方式切换年份，等同于用户点击
+   * @param {string} year - 目标年份
+   * @returns {boolean} 年份是否存在
+   */
+  public select(year: string): boolean {
+    const yearEl = this.container?.querySelector<HTMLElement>(
+      `.year-item[data-year="${year}"]`,
+    );
+    if (!yearEl) return false;
+    this._activate(yearEl);
+    return true;
+  }
+
+  public getYear(): string {
+    return this.currentYear;
+  }
+
   private _renderYears(years: string[]): void {
     if (!this.container) return;
     this.container.innerHTML = "";
 
     years.forEach((year) => {
       const yearEl = document.createElement("div");
-      yearEl.className = `year-item ${year === this.currentYear ? "active" : ""}`;
+      const isActive = year === this.currentYear;
+      yearEl.className = `year-item ${isActive ? "active" : ""}`;
       yearEl.innerText = year;
       yearEl.dataset.year = year;
+      yearEl.setAttribute("role", "tab");
+      yearEl.setAttribute("aria-selected", String(isActive));
+      // 漫游 tabindex：仅选中年份可被 Tab 聚焦，其余通过方向键切换
+      yearEl.tabIndex = isActive ? 0 : -1;
 
       if (this.container) {
         this.container.appendChild(yearEl);
@@ -68,23 +94,80 @@ export default class YearSelector {
 
   private _setupEventDelegation(): void {
     if (!this.container) return;
+    this.container.setAttribute("role", "tablist");
+    this.container.setAttribute("aria-label", "年份");
     this.container.addEventListener("click", this._boundHandleClick);
+    this.container.addEventListener("keydown", this._boundHandleKeyDown);
+  }
+
+  /**
+   * 左右方向键/Home/End 移动焦点，Enter/空格选中
+   */
+  private _handleKeyDown(e: KeyboardEvent): void {
+    if (!this.container) return;
+    const target = e.target as HTMLElement;
+    if (!target.classList.contains("year-item")) return;
+
+    const items = Array.from(
+      this.container.querySelectorAll<HTMLElement>(".year-item"),
+    );
+    const index = items.indexOf(target);
+    let next = -1;
+
+    switch (e.key) {
+      case "ArrowRight":
+        next = Math.min(items.length - 1, index + 1);
+        break;
+      case "ArrowLeft":
+        next = Math.max(0, index - 1);
+        break;
+      case "Home":
+        next = 0;
+        break;
+      case "End":
+        next = items.length - 1;
+        break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        this._activate(target);
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    items.forEach((el, i) => {
+      el.tabIndex = i === next ? 0 : -1;
+    });
+    items[next].focus();
+    items[next].scrollIntoView({ block: "nearest", inline: "nearest" });
   }
 
   private _handleClick(e: MouseEvent): void {
     const target = e.target as HTMLElement;
     if (!target.classList.contains("year-item")) return;
 
-    const year = target.dataset.year;
+    this._activate(target);
+  }
+
+  private _activate(yearEl: HTMLElement): void {
+    const year = yearEl.dataset.year;
     if (!year || this.currentYear === year) return;
 
     this.currentYear = year;
 
     if (this.container) {
-      this.container.querySelectorAll(".year-item").forEach((el) => {
-        el.classList.remove("active");
-      });
-      target.classList.add("active");
+      this.container
+        .querySelectorAll<HTMLElement>(".year-item")
+        .forEach((el) => {
+          el.classList.remove("active");
+          el.setAttribute("aria-selected", "false");
+          el.tabIndex = -1;
+        });
+      yearEl.classList.add("active");
+      yearEl.setAttribute("aria-selected", "true");
+      yearEl.tabIndex = 0;
     }
 
     if (this.onYearChange) {